@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ACTION_LABELS, ACTIONS, bindKey, DEFAULT_BINDINGS, keyLabel, unbindKey, type Action, type KeyBindings } from '@/game/input';
+
+interface ControlsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bindings: KeyBindings;
+  onBindingsChange: (bindings: KeyBindings) => void;
+}
+
+export const ControlsDialog = ({ open, onOpenChange, bindings, onBindingsChange }: ControlsDialogProps) => {
+  // Action waiting for the next key press
+  const [listening, setListening] = useState<Action | null>(null);
+
+  useEffect(() => {
+    if (!open) setListening(null);
+  }, [open]);
+
+  // Grab the next key before the game or the dialog (Escape closes it) sees it
+  useEffect(() => {
+    if (!listening) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      onBindingsChange(bindKey(bindings, listening, e.code));
+      setListening(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening, bindings, onBindingsChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-game-ui-bg border-game-ui-border text-mario-white">
+        <DialogHeader>
+          <DialogTitle className="pixel-font">Controls</DialogTitle>
+          <DialogDescription>
+            Click a key to remove it, or add a key and press the one you want. A key can only do one thing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-2">
+          {ACTIONS.map(action => (
+            <div key={action} className="flex items-center gap-2">
+              <span className="w-32 shrink-0">{ACTION_LABELS[action]}</span>
+              <div className="flex flex-wrap gap-1 flex-1">
+                {bindings[action].map(code => (
+                  <Button
+                    key={code}
+                    size="sm"
+                    variant="secondary"
+                    title="Remove"
+                    onClick={() => onBindingsChange(unbindKey(bindings, action, code))}
+                  >
+                    {keyLabel(code)}
+                  </Button>
+                ))}
+              </div>
+              <Button
+                size="sm"
+                className={listening === action ? 'btn-8bit bg-mario-yellow text-mario-black' : 'btn-8bit'}
+                onClick={() => setListening(listening === action ? null : action)}
+              >
+                {listening === action ? 'Press a key…' : 'Add key'}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => onBindingsChange(DEFAULT_BINDINGS)} className="btn-8bit bg-mario-blue">
+            Reset to defaults
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,329 @@
+import { useEffect, useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GameCanvas } from '@/components/GameCanvas';
+import { toast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/utils';
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '@/game/constants';
+import { buildLevelObjects, buildTileMap, createMario, LEVELS, levelLinkErrors, parseLevel, validateLevel, type BlockContents, type LevelDefinition, type LevelTheme } from '@/game/levels';
+import { applyTool, createEmptyLevel, ENTITY_TOOLS, expandTiles, exportLevel, GRID_OFFSET_Y, GRID_SIZE, TILE_TOOLS, type EditorTool } from '@/game/levels/editing';
+import { drawMario, drawScene } from '@/game/render';
+
+const CONTENT_LABELS: Record<BlockContents, string> = {
+  coin: 'C',
+  'multi-coin': 'C+',
+  mushroom: 'M',
+  'mushroom-or-flower': 'P',
+  oneup: '1UP',
+  starman: '★',
+  vine: 'V',
+  random: '?'
+};
+
+// Select items can't have an empty value
+const NONE = 'none';
+
+// Edit tiles cell by cell; runs are merged again on export
+const toEditable = (level: LevelDefinition): LevelDefinition => ({ ...level, tiles: expandTiles(level.tiles) });
+
+// Schema problems, or else a next level or pipe that leads nowhere
+const levelErrors = (data: unknown) => {
+  const errors = validateLevel(data);
+  return errors.length ? errors : levelLinkErrors(parseLevel(data));
+};
+
+export const LevelEditor = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const paintingRef = useRef(false);
+
+  const [level, setLevel] = useState<LevelDefinition>(() => toEditable(createEmptyLevel()));
+  const [tool, setTool] = useState<EditorTool>('ground');
+  const [contents, setContents] = useState<BlockContents | undefined>(undefined);
+  const [scrollX, setScrollX] = useState(0);
+  const [playTest, setPlayTest] = useState<LevelDefinition | null>(null);
+
+  const maxScroll = Math.max(0, level.width - CANVAS_WIDTH);
+
+  // Render
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const camera = { x: scrollX, y: 0 };
+    drawScene(ctx, buildTileMap(level), buildLevelObjects(level), camera, level.theme);
+
+    // Grid
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = GRID_SIZE - (scrollX % GRID_SIZE); x < CANVAS_WIDTH; x += GRID_SIZE) {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, CANVAS_HEIGHT);
+    }
+    for (let y = GRID_OFFSET_Y; y < CANVAS_HEIGHT; y += GRID_SIZE) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(CANVAS_WIDTH, y);
+    }
+    ctx.stroke();
+
+    // Hidden blocks don't draw themselves
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.setLineDash([4, 4]);
+    level.tiles.forEach(tile => {
+      if (tile.type !== 'hidden') return;
+      ctx.strokeRect(tile.x - scrollX, tile.y, tile.width * tile.repeatX, tile.height * tile.repeatY);
+    });
+    ctx.setLineDash([]);
+
+    // Block contents
+    ctx.font = 'bold 10px monospace';
+    ctx.textAlign = 'left';
+    level.tiles.forEach(tile => {
+      if (!tile.contents) return;
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(tile.x - scrollX, tile.y, 24, 12);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(CONTENT_LABELS[tile.contents], tile.x - scrollX + 2, tile.y + 10);
+    });
+
+    // Level end
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(level.width - scrollX, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    drawMario(ctx, createMario(level.spawn), camera);
+  }, [level, scrollX]);
+
+  useEffect(() => {
+    setScrollX(x => Math.min(x, maxScroll));
+  }, [maxScroll]);
+
+  const paintAt = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * (CANVAS_WIDTH / rect.width) + scrollX;
+    const y = (e.clientY - rect.top) * (CANVAS_HEIGHT / rect.height);
+    setLevel(prev => applyTool(prev, tool, x, y, contents));
+  };
+
+  const updateLevel = (changes: Partial<LevelDefinition>) => {
+    setLevel(prev => ({ ...prev, ...changes }));
+  };
+
+  const reportErrors = (errors: string[]) => {
+    toast({
+      variant: 'destructive',
+      title: 'Level is not valid',
+      description: errors.slice(0, 5).join('\n')
+    });
+  };
+
+  const startPlayTest = () => {
+    const errors = levelErrors(level);
+    if (errors.length) {
+      reportErrors(errors);
+      return;
+    }
+    setPlayTest(parseLevel(level));
+  };
+
+  const exportJson = () => {
+    const errors = levelErrors(level);
+    if (errors.length) {
+      reportErrors(errors);
+      return;
+    }
+
+    downloadFile(`${level.id}.json`, exportLevel(level));
+  };
+
+  const importJson = async (file: File) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      reportErrors([`${file.name} is not valid JSON`]);
+      return;
+    }
+
+    const errors = levelErrors(data);
+    if (errors.length) {
+      reportErrors(errors);
+      return;
+    }
+    setLevel(toEditable(parseLevel(data)));
+    setScrollX(0);
+    toast({ title: 'Level imported', description: file.name });
+  };
+
+  if (playTest) {
+    return (
+      <div className="flex flex-col items-center gap-4">
+        <Button onClick={() => setPlayTest(null)} className="btn-8bit bg-mario-blue">
+          Back to Editor
+        </Button>
+        <GameCanvas level={playTest} />
+      </div>
+    );
+  }
+
+  const canHoldContents = tool === 'block' || tool === 'brick' || tool === 'hidden';
+  // Tiles and the eraser paint while dragging, entities are placed one per click
+  const canDrag = tool === 'erase' || (TILE_TOOLS as EditorTool[]).includes(tool);
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <Card className="p-4 bg-game-ui-bg border-game-ui-border">
+        <div className="flex flex-wrap gap-2 mb-4">
+          {[...TILE_TOOLS, ...ENTITY_TOOLS, 'spawn' as const, 'erase' as const].map(option => (
+            <Button
+              key={option}
+              onClick={() => setTool(option)}
+              className={tool === option ? 'btn-8bit bg-mario-yellow text-mario-black' : 'btn-8bit'}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 mb-4 text-mario-white">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="level-id">Id</Label>
+            <Input id="level-id" className="w-24 text-mario-black" value={level.id} onChange={e => updateLevel({ id: e.target.value })} />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="level-name">Name</Label>
+            <Input id="level-name" className="w-40 text-mario-black" value={level.name} onChange={e => updateLevel({ name: e.target.value })} />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label>Theme</Label>
+            <Select value={level.theme} onValueChange={(theme: LevelTheme) => updateLevel({ theme, music: theme })}>
+              <SelectTrigger className="w-36 text-mario-black"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="overworld">Overworld</SelectItem>
+                <SelectItem value="underground">Underground</SelectItem>
+                <SelectItem value="treetop">Tree-tops</SelectItem>
+                <SelectItem value="sky">Sky</SelectItem>
+                <SelectItem value="castle">Castle</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="level-width">Width</Label>
+            <Input
+              id="level-width"
+              type="number"
+              min={CANVAS_WIDTH}
+              step={GRID_SIZE}
+              className="w-24 text-mario-black"
+              value={level.width}
+              onChange={e => updateLevel({ width: Math.max(CANVAS_WIDTH, Number(e.target.value)) })}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="level-time">Time</Label>
+            <Input
+              id="level-time"
+              type="number"
+              min={1}
+              className="w-20 text-mario-black"
+              value={level.timeLimit}
+              onChange={e => updateLevel({ timeLimit: Math.max(1, Number(e.target.value)) })}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label>Next level</Label>
+            <Select value={level.next ?? NONE} onValueChange={next => updateLevel({ next: next === NONE ? null : next })}>
+              <SelectTrigger className="w-28 text-mario-black"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {LEVELS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {canHoldContents && (
+            <div className="flex flex-col gap-1">
+              <Label>Block contents</Label>
+              <Select
+                value={contents ?? NONE}
+                onValueChange={value => setContents(value === NONE ? undefined : value as BlockContents)}
+              >
+                <SelectTrigger className="w-44 text-mario-black"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Empty</SelectItem>
+                  {(Object.keys(CONTENT_LABELS) as BlockContents[]).map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className="game-canvas bg-mario-sky cursor-crosshair"
+          onMouseDown={e => {
+            paintingRef.current = true;
+            paintAt(e);
+          }}
+          onMouseMove={e => {
+            if (paintingRef.current && canDrag) paintAt(e);
+          }}
+          onMouseUp={() => { paintingRef.current = false; }}
+          onMouseLeave={() => { paintingRef.current = false; }}
+        />
+
+        <Slider
+          className="mt-4"
+          min={0}
+          max={maxScroll}
+          step={GRID_SIZE}
+          value={[scrollX]}
+          onValueChange={([value]) => setScrollX(value)}
+        />
+
+        <div className="flex flex-wrap gap-2 mt-4">
+          <Button onClick={startPlayTest} className="btn-8bit bg-mario-green">Play-test</Button>
+          <Button onClick={exportJson} className="btn-8bit">Export JSON</Button>
+          <Button onClick={() => fileInputRef.current?.click()} className="btn-8bit">Import JSON</Button>
+          <Button onClick={() => setLevel(toEditable(createEmptyLevel()))} className="btn-8bit bg-mario-blue">New Level</Button>
+          <Select onValueChange={id => setLevel(toEditable(LEVELS.find(option => option.id === id)))}>
+            <SelectTrigger className="w-40 text-mario-black"><SelectValue placeholder="Open built-in…" /></SelectTrigger>
+            <SelectContent>
+              {LEVELS.map(option => (
+                <SelectItem key={option.id} value={option.id}>World {option.id}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importJson(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="mt-4 text-center pixel-font text-mario-white">
+          <p>🧱 Click or drag to paint tiles • Entities are placed one per click • Pipes reach down to the ground</p>
+          <p>❓ Pick block contents before painting, or re-paint a block to change what it holds</p>
+        </div>
+      </Card>
+    </div>
+  );
+};
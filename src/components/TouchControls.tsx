@@ -0,0 +1,91 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { Action } from '@/game/input';
+
+interface TouchControlsProps {
+  onChange: (actions: ReadonlySet<Action>) => void;
+  onPause: () => void;
+}
+
+interface TouchButton {
+  label: string;
+  actions: Action[];
+  className: string;
+}
+
+const DPAD: TouchButton[] = [
+  { label: '◀', actions: ['left'], className: 'col-start-1 row-start-1' },
+  { label: '▼', actions: ['down'], className: 'col-start-2 row-start-2' },
+  { label: '▶', actions: ['right'], className: 'col-start-3 row-start-1' }
+];
+
+// Like the NES pad, B both runs and shoots
+const FACE_BUTTONS: TouchButton[] = [
+  { label: 'B', actions: ['run', 'fire'], className: 'mt-6' },
+  { label: 'A', actions: ['jump'], className: '' }
+];
+
+// Virtual D-pad and face buttons. Every finger is tracked on its own and can
+// slide from one button to the next without lifting.
+export const TouchControls = ({ onChange, onPause }: TouchControlsProps) => {
+  // Actions under each finger, keyed by pointer id
+  const pointersRef = useRef(new Map<number, Action[]>());
+  const [held, setHeld] = useState<ReadonlySet<Action>>(new Set());
+
+  const publish = () => {
+    const actions = new Set([...pointersRef.current.values()].flat());
+    setHeld(actions);
+    onChange(actions);
+  };
+
+  const track = (e: React.PointerEvent) => {
+    const button = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-actions]');
+    pointersRef.current.set(e.pointerId, button ? button.dataset.actions.split(' ') as Action[] : []);
+    publish();
+  };
+
+  const release = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    publish();
+  };
+
+  const renderButton = ({ label, actions, className }: TouchButton, shape: string) => (
+    <div
+      key={label}
+      data-actions={actions.join(' ')}
+      className={`${shape} ${className} flex items-center justify-center border-4 border-mario-black pixel-font text-2xl text-mario-white ${
+        actions.some(action => held.has(action)) ? 'bg-mario-yellow' : 'bg-mario-red'
+      }`}
+    >
+      {label}
+    </div>
+  );
+
+  return (
+    <div className="flex w-full items-end justify-between gap-4 mt-4">
+      <div
+        className="flex w-full items-end justify-between select-none touch-none"
+        onPointerDown={e => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          track(e);
+        }}
+        onPointerMove={e => {
+          if (pointersRef.current.has(e.pointerId)) track(e);
+        }}
+        onPointerUp={release}
+        onPointerCancel={release}
+        onContextMenu={e => e.preventDefault()}
+      >
+        <div className="grid grid-cols-3 grid-rows-2 gap-1">
+          {DPAD.map(button => renderButton(button, 'h-14 w-14 rounded-md'))}
+        </div>
+        <div className="flex gap-3">
+          {FACE_BUTTONS.map(button => renderButton(button, 'h-16 w-16 rounded-full'))}
+        </div>
+      </div>
+      <Button onClick={onPause} className="btn-8bit bg-mario-blue">
+        ❚❚
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import type { LevelTheme } from './levels/schema';
+import type { SoundEffect } from './types';
+
+const createAudioContext = (): AudioContext => {
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  return new AudioContextClass();
+};
+
+// Background music. Returns a function that stops the loop.
+export const playBackgroundMusic = (music: LevelTheme) => {
+  const audioContext = createAudioContext();
+  let playing = true;
+
+  const notes = music === 'underground' ?
+    [330, 330, 0, 330, 0, 262, 330, 0, 392] : // Underground theme
+    music === 'treetop' ?
+    [523, 659, 784, 659, 523, 659, 784] : // Tree-top theme (higher pitched)
+    music === 'sky' ?
+    [784, 0, 880, 0, 988, 1047, 0, 988, 880] : // Sky theme (higher still)
+    music === 'castle' ?
+    [196, 233, 196, 0, 185, 220, 185, 0] : // Castle theme (low and ominous)
+    [659, 659, 0, 659, 0, 523, 659, 0, 784]; // Overworld theme
+  const noteDuration = music === 'underground' ? 0.4 : music === 'treetop' || music === 'sky' ? 0.25 : 0.3;
+  let currentNote = 0;
+
+  const playNote = () => {
+    if (!playing) return;
+
+    const oscillator = audioContext.createOscillator();
+    const gainNode = audioContext.createGain();
+
+    oscillator.connect(gainNode);
+    gainNode.connect(audioContext.destination);
+
+    if (notes[currentNote] > 0) {
+      oscillator.frequency.setValueAtTime(notes[currentNote], audioContext.currentTime);
+      oscillator.type = 'square';
+      gainNode.gain.setValueAtTime(0.1, audioContext.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + noteDuration * 0.8);
+
+      oscillator.start(audioContext.currentTime);
+      oscillator.stop(audioContext.currentTime + noteDuration * 0.8);
+    }
+
+    currentNote = (currentNote + 1) % notes.length;
+    setTimeout(playNote, noteDuration * 1000);
+  };
+
+  playNote();
+
+  return () => {
+    playing = false;
+    audioContext.close();
+  };
+};
+
+// Sound effects
+export const playSound = (type: SoundEffect) => {
+  const audioContext = createAudioContext();
+  const oscillator = audioContext.createOscillator();
+  const gainNode = audioContext.createGain();
+
+  oscillator.connect(gainNode);
+  gainNode.connect(audioContext.destination);
+
+  let frequency = 440;
+  let duration = 0.1;
+
+  switch (type) {
+    case 'jump':
+      frequency = 523;
+      duration = 0.15;
+      break;
+    case 'coin':
+      frequency = 698;
+      duration = 0.1;
+      break;
+    case 'powerup':
+      frequency = 880;
+      duration = 0.3;
+      break;
+    case 'stomp':
+      frequency = 220;
+      duration = 0.1;
+      break;
+    case 'death':
+      frequency = 131;
+      duration = 0.5;
+      break;
+    case 'break':
+      frequency = 180;
+      duration = 0.2;
+      break;
+    case 'fireball':
+      frequency = 800;
+      duration = 0.1;
+      break;
+    case 'shrink':
+      frequency = 200;
+      duration = 0.4;
+      break;
+    case 'pipe':
+      frequency = 110;
+      duration = 0.4;
+      break;
+    case 'vine':
+      frequency = 392;
+      duration = 0.5;
+      break;
+    case 'cannon':
+      frequency = 90;
+      duration = 0.2;
+      break;
+  }
+
+  oscillator.frequency.setValueAtTime(frequency, audioContext.currentTime);
+  oscillator.type = 'square';
+
+  gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
+  gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + duration);
+
+  oscillator.start(audioContext.currentTime);
+  oscillator.stop(audioContext.currentTime + duration);
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { BUMP_FRAMES } from './blocks';
+import { MARIO_BIG_HEIGHT } from './constants';
+import { createInitialState, step } from './engine';
+import type { Action } from './input';
+import { startLevel } from './levels';
+import { createEmptyLevel } from './levels/editing';
+import type { LevelTile } from './levels/schema';
+import { colAt, getTile, rowAt, TILE } from './tilemap';
+import type { GameObject, GameState } from './types';
+
+const run = (state: GameState, frames: number, ...actions: Action[]) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set(actions) });
+  }
+  return state;
+};
+
+const until = (state: GameState, done: (state: GameState) => boolean, ...actions: Action[]) => {
+  for (let i = 0; i < 300 && !done(state); i++) {
+    state = step(state, { actions: new Set(actions) });
+  }
+  return state;
+};
+
+// Small Mario standing on the ground under the block at x=320, y=272
+const underBlock = (tile: Partial<LevelTile>): GameState => {
+  const level = createEmptyLevel();
+  const withBlock = { ...level, tiles: [...level.tiles, { ...level.tiles[0], x: 320, y: 272, ...tile }] };
+  const state = run(startLevel(createInitialState(withBlock), withBlock, 1), 60);
+  return { ...state, mario: { ...state.mario, x: 326 } };
+};
+
+// Jump into the block above and fall back clear of it
+const hit = (state: GameState) => until(run(state, 1, 'jump'), state => state.mario.vy > 0);
+
+const blockAt = (state: GameState) => getTile(state.tiles, colAt(320), rowAt(272));
+
+describe('question blocks', () => {
+  it('give up what they hold once and are used after that', () => {
+    const first = hit(underBlock({ type: 'block', contents: 'coin' }));
+    expect(first.coins).toBe(1);
+    expect(blockAt(first)).toBe(TILE.USED);
+
+    const second = hit(until(first, state => state.mario.grounded));
+    expect(second.coins).toBe(1);
+    expect(second.bumps).toEqual([]);
+  });
+
+  it('jolt up for a few frames when hit', () => {
+    const state = hit(underBlock({ type: 'block', contents: 'coin' }));
+    expect(state.bumps).toEqual([expect.objectContaining({ col: colAt(320), row: rowAt(272) })]);
+    expect(run(state, BUMP_FRAMES).bumps).toEqual([]);
+  });
+});
+
+describe('multi-coin bricks', () => {
+  it('pay out a coin per hit until their clock runs down', () => {
+    let state = underBlock({ type: 'brick', contents: 'multi-coin' });
+    for (let i = 1; i <= 3; i++) {
+      state = until(hit(state), state => state.mario.grounded);
+      expect(state.coins).toBe(i);
+      expect(blockAt(state)).toBe(TILE.BRICK);
+    }
+
+    // The first hit after time is up gives the last coin
+    state = hit({ ...state, time: state.time - 5 });
+    expect(state.coins).toBe(4);
+    expect(blockAt(state)).toBe(TILE.USED);
+  });
+});
+
+describe('hidden blocks', () => {
+  it('can be jumped through from above', () => {
+    const state = underBlock({ type: 'hidden', contents: 'oneup' });
+    const above = { ...state, mario: { ...state.mario, y: 200, grounded: false } };
+
+    expect(until(above, state => state.mario.grounded).mario.y + state.mario.height).toBe(368);
+  });
+
+  it('turn up as a used block with their contents when hit from below', () => {
+    const state = hit(underBlock({ type: 'hidden', contents: 'oneup' }));
+
+    expect(blockAt(state)).toBe(TILE.USED);
+    expect(state.objects.some(obj => obj.type === 'oneup' && obj.active)).toBe(true);
+  });
+});
+
+describe('bumping', () => {
+  it('knocks out enemies standing on the block', () => {
+    const state = underBlock({ type: 'brick', x: 288, repeatX: 3 });
+    const goomba: GameObject = { x: 326, y: 252, width: 20, height: 20, type: 'goomba', active: true, vx: -1, direction: -1 };
+
+    const bumped = hit({ ...state, objects: [...state.objects, goomba] });
+    expect(bumped.objects.find(obj => obj.type === 'goomba').active).toBe(false);
+    expect(bumped.events).toContain('stomp');
+  });
+
+  it('smashes empty bricks for Big Mario but only bumps them for small Mario', () => {
+    const small = hit(underBlock({ type: 'brick' }));
+    expect(blockAt(small)).toBe(TILE.BRICK);
+    expect(small.bumps).toHaveLength(1);
+
+    const ready = underBlock({ type: 'brick' });
+    const big = hit({ ...ready, mario: { ...ready.mario, big: true, height: MARIO_BIG_HEIGHT, y: ready.mario.y + ready.mario.height - MARIO_BIG_HEIGHT } });
+    expect(blockAt(big)).toBe(TILE.EMPTY);
+    expect(big.events).toContain('break');
+  });
+});
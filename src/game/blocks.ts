@@ -0,0 +1,148 @@
+import { hitEnemy, isEnemy } from './enemies';
+import type { BlockContents, Warp } from './levels/schema';
+import { random } from './random';
+import type { Bounds } from './spatial';
+import { getCoinTimer, getTile, getTileContents, getTileWarp, setCoinTimer, setTile, TILE, TILE_PROPERTIES, tileBounds } from './tilemap';
+import type { GameObject, GameState } from './types';
+
+type PowerUpType = 'mushroom' | 'oneup' | 'fireflower' | 'starman';
+
+// Frames a block takes to jolt up and settle back after being hit
+export const BUMP_FRAMES = 10;
+// How long a multi-coin block keeps paying out after its first hit
+const MULTI_COIN_SECONDS = 4;
+
+const spawnPowerUp = (state: GameState, objects: GameObject[], block: Bounds, type: PowerUpType) => {
+  const item: GameObject = {
+    x: block.x,
+    y: block.y - 20,
+    width: 16,
+    height: 16,
+    type,
+    active: true,
+    vy: -2
+  };
+
+  if (type === 'mushroom' || type === 'oneup') {
+    item.vx = 1.5;
+  } else if (type === 'starman') {
+    item.vx = 2;
+    item.vy = -8;
+  }
+
+  objects.push(item);
+  state.events.push('powerup');
+};
+
+// Spawn coin with upward velocity for animation
+const spawnCoin = (state: GameState, objects: GameObject[], block: Bounds) => {
+  objects.push({
+    x: block.x + 8,
+    y: block.y - 20,
+    width: 16,
+    height: 16,
+    type: 'coin',
+    active: true,
+    vy: -8,
+    vx: 0
+  });
+  state.coins++;
+  state.score += 200;
+  state.events.push('coin');
+};
+
+// A vine starts inside the top of the block and grows from there, see vines.ts
+const spawnVine = (state: GameState, objects: GameObject[], block: Bounds, warp?: Warp) => {
+  objects.push({
+    x: block.x + 8,
+    y: block.y,
+    width: 16,
+    height: 0,
+    type: 'vine',
+    active: true,
+    ...(warp && { warp })
+  });
+  state.events.push('vine');
+};
+
+const spawnContents = (state: GameState, objects: GameObject[], block: Bounds, mario: GameObject, contents: BlockContents, warp?: Warp) => {
+  switch (contents) {
+    case 'coin':
+    case 'multi-coin':
+      spawnCoin(state, objects, block);
+      break;
+    case 'mushroom':
+    case 'oneup':
+    case 'starman':
+      spawnPowerUp(state, objects, block, contents);
+      break;
+    case 'mushroom-or-flower':
+      spawnPowerUp(state, objects, block, mario.big ? 'fireflower' : 'mushroom');
+      break;
+    case 'vine':
+      spawnVine(state, objects, block, warp);
+      break;
+    case 'random':
+      if (random(state) < 0.3) {
+        spawnPowerUp(state, objects, block, random(state) < 0.15 ? 'oneup' : 'mushroom');
+      } else {
+        spawnCoin(state, objects, block);
+      }
+      break;
+  }
+};
+
+// Enemies standing on a block as it's hit are knocked out
+const knockOutEnemiesOn = (state: GameState, objects: GameObject[], block: Bounds) => {
+  objects.forEach(obj => {
+    if (!obj.active || !isEnemy(obj)) return;
+
+    const feet = obj.y + obj.height;
+    if (Math.abs(feet - block.y) <= 4 && obj.x < block.x + block.width && obj.x + obj.width > block.x) {
+      hitEnemy(state, obj, 'bump');
+    }
+  });
+};
+
+const bumpBlock = (state: GameState, col: number, row: number) => {
+  state.bumps = [...state.bumps.filter(bump => bump.col !== col || bump.row !== row), { col, row, frames: BUMP_FRAMES }];
+};
+
+export const updateBumps = (state: GameState) => {
+  if (state.bumps.length === 0) return;
+  state.bumps = state.bumps.map(bump => ({ ...bump, frames: bump.frames - 1 })).filter(bump => bump.frames > 0);
+};
+
+// Mario hit the block or brick at (col, row) from below
+export const hitBlock = (state: GameState, col: number, row: number, mario: GameObject, objects: GameObject[]) => {
+  const tile = getTile(state.tiles, col, row);
+  const contents = getTileContents(state.tiles, col, row);
+  const warp = getTileWarp(state.tiles, col, row);
+  const block = tileBounds(col, row);
+
+  knockOutEnemiesOn(state, objects, block);
+
+  if (contents === 'multi-coin') {
+    // The first hit starts the clock, the first hit after it runs out gives the last coin
+    const until = getCoinTimer(state.tiles, col, row);
+    if (until === undefined) {
+      state.tiles = setCoinTimer(state.tiles, col, row, state.time - MULTI_COIN_SECONDS);
+    } else if (state.time <= until) {
+      state.tiles = setTile(state.tiles, col, row, TILE.USED);
+    }
+    spawnCoin(state, objects, block);
+    bumpBlock(state, col, row);
+  } else if (!TILE_PROPERTIES[tile].breakable || contents) {
+    // Question blocks, hidden blocks and bricks with something inside give it up once
+    state.tiles = setTile(state.tiles, col, row, TILE.USED);
+    spawnContents(state, objects, block, mario, contents ?? 'coin', warp);
+    bumpBlock(state, col, row);
+  } else if (mario.big) {
+    // Big Mario smashes empty bricks
+    state.tiles = setTile(state.tiles, col, row, TILE.EMPTY);
+    state.score += 50;
+    state.events.push('break');
+  } else {
+    bumpBlock(state, col, row);
+  }
+};
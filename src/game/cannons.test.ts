@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, step } from './engine';
+import { hitEnemy, type Enemy } from './enemies';
+import { startLevel, type LevelTile } from './levels';
+import { createEmptyLevel } from './levels/editing';
+import type { GameObject, GameState } from './types';
+
+// Frames between shots
+const FIRE_INTERVAL = 180;
+
+const run = (state: GameState, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set() });
+  }
+  return state;
+};
+
+// Mario standing at marioX in an empty level with a one-tile cannon on the ground at x=600
+const withCannon = (marioX: number, cannon: Partial<LevelTile> = {}): GameState => {
+  const level = createEmptyLevel();
+  const withTile = { ...level, tiles: [...level.tiles, { ...level.tiles[0], type: 'cannon' as const, x: 600, y: 336, repeatX: 1, ...cannon }] };
+  const state = startLevel(createInitialState(withTile), withTile, 1);
+  return { ...state, mario: { ...state.mario, x: marioX, invincible: 0 } };
+};
+
+const bullets = (state: GameState) => state.objects.filter(obj => obj.type === 'bullet' && obj.active);
+
+describe('cannons', () => {
+  it('fire a Bullet Bill at Mario once they have reloaded', () => {
+    expect(bullets(run(withCannon(400), FIRE_INTERVAL - 1))).toEqual([]);
+
+    const state = run(withCannon(400), FIRE_INTERVAL);
+    const [bullet] = bullets(state);
+    expect(bullet.vx).toBeLessThan(0);
+    expect(bullet.x + bullet.width).toBeLessThanOrEqual(600);
+    expect(state.events).toContain('cannon');
+  });
+
+  it('hold fire while Mario is out of range', () => {
+    expect(bullets(run(withCannon(50), FIRE_INTERVAL))).toEqual([]);
+    expect(bullets(run(withCannon(50, { range: 600 }), FIRE_INTERVAL))).toHaveLength(1);
+  });
+
+  it('hold fire while Mario is right next to them', () => {
+    expect(bullets(run(withCannon(585), FIRE_INTERVAL))).toEqual([]);
+  });
+});
+
+describe('Bullet Bills', () => {
+  it('fly straight through everything', () => {
+    const fired = run(withCannon(900), FIRE_INTERVAL);
+    const [bullet] = bullets(fired);
+    const later = bullets(run({ ...fired, mario: { ...fired.mario, x: 1300 } }, 60))[0];
+
+    expect(later.y).toBe(bullet.y);
+    expect(later.x).toBe(bullet.x + 60 * bullet.vx);
+  });
+
+  it('put out fireballs that hit them and fly on', () => {
+    const state = run(withCannon(400), FIRE_INTERVAL);
+    const [bullet] = bullets(state);
+    const fireball: GameObject = { x: bullet.x - 12, y: bullet.y + 6, width: 8, height: 8, type: 'fireball', active: true, vx: 8, vy: 0, bounce: 3 };
+    const hit = run({ ...state, objects: [...state.objects, fireball] }, 1);
+
+    expect(hit.objects.filter(obj => obj.type === 'fireball' && obj.active)).toEqual([]);
+    expect(bullets(hit)).toHaveLength(1);
+  });
+
+  it('can be stomped but not burned', () => {
+    const state = run(withCannon(400), FIRE_INTERVAL);
+    const [bullet] = bullets(state);
+    expect(hitEnemy(state, bullet as Enemy, 'fire')).toBe(false);
+
+    const stomped = run({ ...state, mario: { ...state.mario, x: bullet.x, y: bullet.y - state.mario.height - 4, vy: 2, grounded: false } }, 2);
+    expect(bullets(stomped)).toEqual([]);
+    expect(stomped.death).toBeNull();
+  });
+});
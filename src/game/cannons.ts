@@ -0,0 +1,38 @@
+import { TILE_SIZE } from './tilemap';
+import type { GameObject, GameState } from './types';
+
+// Frames between shots from one cannon
+const FIRE_INTERVAL = 180;
+// How far away Mario can be for cannons that don't set their own range
+export const CANNON_RANGE = 320;
+const BULLET_WIDTH = 24;
+const BULLET_HEIGHT = 20;
+const BULLET_SPEED = 3;
+
+// Gap between Mario and the cannon, negative while he stands on it
+const gapTo = (mario: GameObject, cannon: GameObject) =>
+  mario.x > cannon.x ? mario.x - (cannon.x + cannon.width) : cannon.x - (mario.x + mario.width);
+
+// Fire a Bullet Bill out of the barrel towards Mario every so often, while
+// he's in range but not right next to the cannon
+export const fireCannon = (state: GameState, cannon: GameObject, mario: GameObject, objects: GameObject[]) => {
+  cannon.timer = (cannon.timer || 0) + 1;
+  if (cannon.timer < FIRE_INTERVAL) return;
+
+  const gap = gapTo(mario, cannon);
+  if (gap < TILE_SIZE || gap > (cannon.range ?? CANNON_RANGE)) return;
+
+  const direction = mario.x < cannon.x ? -1 : 1;
+  cannon.timer = 0;
+  objects.push({
+    x: direction < 0 ? cannon.x - BULLET_WIDTH : cannon.x + cannon.width,
+    y: cannon.y + (TILE_SIZE - BULLET_HEIGHT) / 2,
+    width: BULLET_WIDTH,
+    height: BULLET_HEIGHT,
+    type: 'bullet',
+    active: true,
+    vx: direction * BULLET_SPEED,
+    direction
+  });
+  state.events.push('cannon');
+};
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, step } from './engine';
+import { hitEnemy, type Enemy } from './enemies';
+import { firebarSegments } from './enemies/firebar';
+import { getLevel, startLevel, type LevelEntity } from './levels';
+import { createEmptyLevel } from './levels/editing';
+import { TILE } from './tilemap';
+import type { GameObject, GameState } from './types';
+
+const run = (state: GameState, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set() });
+  }
+  return state;
+};
+
+const until = (state: GameState, done: (state: GameState) => boolean) => {
+  for (let i = 0; i < 600 && !done(state); i++) {
+    state = step(state, { actions: new Set() });
+  }
+  return state;
+};
+
+const castle = getLevel('1-4');
+
+// Small Mario at (x, y) in 1-4
+const inCastle = (x: number, y: number): GameState => {
+  const state = startLevel(createInitialState(castle), castle, 1);
+  return { ...state, mario: { ...state.mario, x, y } };
+};
+
+// Mario at the start of an empty level with one more entity in it
+const withEntity = (entity: LevelEntity): GameState => {
+  const level = createEmptyLevel();
+  const withOne = { ...level, entities: [entity] };
+  const state = startLevel(createInitialState(withOne), withOne, 1);
+  return { ...state, mario: { ...state.mario, invincible: 0 } };
+};
+
+const find = (state: GameState, type: GameObject['type']) => state.objects.find(obj => obj.type === type);
+
+describe('the axe', () => {
+  // Standing on the end of the bridge, touching the axe
+  const atAxe = () => {
+    const state = inCastle(2040, 0);
+    return run({ ...state, mario: { ...state.mario, y: 304 - state.mario.height } }, 1);
+  };
+
+  it('stops everything and starts dropping the bridge', () => {
+    const state = atAxe();
+
+    expect(state.castleClear).toEqual({ stage: 'collapse', frames: 0 });
+    expect(find(state, 'axe').active).toBe(false);
+    expect(run(state, 20).mario.x).toBe(state.mario.x);
+  });
+
+  it('drops the bridge a section at a time and Bowser into the lava', () => {
+    const state = atAxe();
+    const bridge = (state: GameState) => state.tiles.cells.filter(cell => cell === TILE.BRIDGE).length;
+    expect(run(state, 4).events).toContain('break');
+    expect(bridge(run(state, 8))).toBe(bridge(state) - 2);
+
+    const collapsed = until(state, state => state.castleClear?.stage !== 'collapse');
+    expect(bridge(collapsed)).toBe(0);
+    expect(find(collapsed, 'bowser').active).toBe(false);
+  });
+
+  it('walks Mario on into the castle and then goes on to the next level', () => {
+    const walking = until(atAxe(), state => state.castleClear?.stage === 'walk');
+    const thanked = until(walking, state => state.castleClear?.stage === 'message');
+    expect(thanked.mario.x).toBeGreaterThan(walking.mario.x);
+
+    const next = until(thanked, state => state.level.id !== castle.id);
+    expect(next.level.id).toBe(castle.next);
+    expect(next.castleClear).toBeNull();
+  });
+});
+
+describe('lava', () => {
+  it('burns Mario up, even with star power', () => {
+    const state = inCastle(470, 345);
+    expect(run({ ...state, mario: { ...state.mario, invincible: 300 } }, 1).death).not.toBeNull();
+  });
+});
+
+describe('firebars', () => {
+  // Pointing straight right from (400, 200) until it starts to turn
+  const firebar = (speed = 0) => withEntity({ type: 'firebar', x: 400, y: 200, length: 6, speed });
+
+  it('turn around their block', () => {
+    const turned = find(run(firebar(0.05), 10), 'firebar');
+    expect(turned.angle).toBeCloseTo(0.5);
+  });
+
+  it('only hurt where the fireballs are', () => {
+    const state = firebar();
+    const [, , segment] = firebarSegments(find(state, 'firebar'));
+
+    const clear = run({ ...state, mario: { ...state.mario, x: 360, y: 212 } }, 1);
+    expect(clear.death).toBeNull();
+
+    const burned = run({ ...state, mario: { ...state.mario, x: segment.x, y: segment.y - 10 } }, 1);
+    expect(burned.death).not.toBeNull();
+  });
+
+  it('only stop fireballs where the fireballs are', () => {
+    const state = firebar();
+    const [, , segment] = firebarSegments(find(state, 'firebar'));
+    const fireballAt = (x: number, y: number): GameState => ({
+      ...state,
+      objects: [...state.objects, { x, y, width: 8, height: 8, type: 'fireball', active: true, vx: 0, vy: 0, bounce: 3 }]
+    });
+
+    expect(find(run(fireballAt(360, 212), 1), 'fireball').active).toBe(true);
+    expect(find(run(fireballAt(segment.x + 4, segment.y + 4), 1), 'fireball').active).toBe(false);
+  });
+
+  it('cannot be put out', () => {
+    const state = firebar();
+    expect(hitEnemy(state, find(state, 'firebar') as Enemy, 'fire')).toBe(false);
+  });
+});
+
+describe('Podoboos', () => {
+  it('wait under the lava, then leap up to their height and drop back in', () => {
+    let state = withEntity({ type: 'podoboo', x: 400, y: 416, height: 224 });
+    expect(find(run(state, 60), 'podoboo').y).toBe(416);
+
+    let highest = 416;
+    for (let i = 0; i < 150; i++) {
+      state = run(state, 1);
+      highest = Math.min(highest, find(state, 'podoboo').y);
+    }
+    // Near enough, moving in whole frames
+    expect(Math.abs(highest - (416 - 224))).toBeLessThan(10);
+    expect(find(state, 'podoboo').y).toBe(416);
+  });
+});
+
+describe('Bowser', () => {
+  const guarding = () => withEntity({ type: 'bowser', x: 600, y: 320, range: 64 });
+
+  it('paces around where he starts', () => {
+    let state = guarding();
+    for (let i = 0; i < 300; i++) {
+      state = run(state, 1);
+      expect(Math.abs(find(state, 'bowser').x - 600)).toBeLessThanOrEqual(65);
+    }
+  });
+
+  it('breathes fire that drifts to the height of Mario', () => {
+    const state = run(guarding(), 150);
+    const flame = find(state, 'flame');
+    expect(flame.vx).toBeLessThan(0);
+
+    const aimedAt = flame.minY;
+    expect(aimedAt).toBeGreaterThan(flame.y);
+    expect(find(run(state, 60), 'flame').y).toBe(aimedAt);
+  });
+
+  it('cannot be stomped or knocked out', () => {
+    const state = run(guarding(), 30);
+    const enemy = find(state, 'bowser');
+    expect(hitEnemy(state, enemy as Enemy, 'fire')).toBe(false);
+
+    const landed = run({ ...state, mario: { ...state.mario, x: enemy.x + 10, y: enemy.y - state.mario.height - 2, vy: 4, grounded: false } }, 1);
+    expect(find(landed, 'bowser').active).toBe(true);
+    expect(landed.death).not.toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { fall } from './enemies/behavior';
+import { advanceToLevel, nextLevel } from './levels';
+import { moveMario, resolveMarioCollisions } from './physics';
+import { getTile, setTile, TILE, type TileMap } from './tilemap';
+import type { CastleClear, GameObject, GameState } from './types';
+
+// Frames between sections of the bridge falling away
+const BRIDGE_FRAMES = 4;
+const WALK_SPEED = 2;
+const WALK_FRAMES = 90;
+// How long the "thank you" message shows before the next level
+const MESSAGE_FRAMES = 240;
+
+// The rightmost section of bridge left, nearest the axe
+const lastBridgeSection = (tiles: TileMap) => {
+  for (let col = tiles.cols - 1; col >= 0; col--) {
+    for (let row = 0; row < tiles.rows; row++) {
+      if (getTile(tiles, col, row) === TILE.BRIDGE) return { col, row };
+    }
+  }
+};
+
+// Mario grabbed the axe. Everything stops while the bridge goes.
+export const touchAxe = (state: GameState, mario: GameObject, axe: GameObject) => {
+  if (state.castleClear) return;
+
+  axe.active = false;
+  mario.vx = 0;
+  mario.vy = 0;
+  mario.skidding = false;
+  state.castleClear = { stage: 'collapse', frames: 0 };
+};
+
+const nextStage = (state: GameState, stage: CastleClear['stage']) => {
+  state.castleClear = { stage, frames: 0 };
+};
+
+// Drop the bridge a section at a time with Bowser on it, walk Mario on into
+// the castle and thank him, then move on to the next level
+export const updateCastleClear = (state: GameState, mario: GameObject, objects: GameObject[]): GameState => {
+  const { stage } = state.castleClear;
+  const frames = state.castleClear.frames + 1;
+  state.castleClear = { stage, frames };
+  state.objects = objects;
+  state.mario = mario;
+
+  switch (stage) {
+    case 'collapse': {
+      if (frames % BRIDGE_FRAMES === 0) {
+        const section = lastBridgeSection(state.tiles);
+        if (section) {
+          state.tiles = setTile(state.tiles, section.col, section.row, TILE.EMPTY);
+          state.events.push('break');
+        }
+      }
+
+      // Bowser is the only thing that moves, once there's nothing under him
+      objects.forEach(obj => {
+        if (obj.active && obj.type === 'bowser') fall(state, obj, objects);
+      });
+
+      const falling = objects.some(obj => obj.active && obj.type === 'bowser' && !obj.grounded);
+      if (!lastBridgeSection(state.tiles) && !falling) {
+        nextStage(state, 'walk');
+      }
+      break;
+    }
+
+    case 'walk': {
+      const prevY = mario.y;
+      mario.vx = WALK_SPEED;
+      mario.direction = 1;
+      moveMario(state, mario);
+      resolveMarioCollisions(state, mario, objects, prevY);
+      mario.x = Math.min(mario.x, state.area.width - mario.width);
+
+      if (frames >= WALK_FRAMES) {
+        mario.vx = 0;
+        nextStage(state, 'message');
+      }
+      break;
+    }
+
+    case 'message': {
+      if (frames < MESSAGE_FRAMES) break;
+
+      const next = nextLevel(state.level);
+      if (next) {
+        return advanceToLevel(state, next);
+      }
+      state.gameWon = true;
+      state.gameRunning = false;
+      break;
+    }
+  }
+
+  return state;
+};
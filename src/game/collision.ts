@@ -0,0 +1,57 @@
+import { expandBounds, queryObjects, type Bounds } from './spatial';
+import { solidTilesIn, TILE_PROPERTIES, tileBounds, type TileRef, type TileType } from './tilemap';
+import type { GameObject, GameState } from './types';
+
+// Axis-aligned bounding box overlap test
+export const checkCollision = (obj1: Bounds, obj2: Bounds) => {
+  return obj1.x < obj2.x + obj2.width &&
+         obj1.x + obj1.width > obj2.x &&
+         obj1.y < obj2.y + obj2.height &&
+         obj1.y + obj1.height > obj2.y;
+};
+
+// Enhanced collision detection for flag with larger area
+export const checkFlagCollision = (mario: GameObject, flag: GameObject) => {
+  // Expand the flag collision area by 20 pixels on each side
+  const expandedFlag = {
+    x: flag.x - 20,
+    y: flag.y,
+    width: flag.width + 40,
+    height: flag.height
+  };
+
+  return mario.x < expandedFlag.x + expandedFlag.width &&
+         mario.x + mario.width > expandedFlag.x &&
+         mario.y < expandedFlag.y + expandedFlag.height &&
+         mario.y + mario.height > expandedFlag.y;
+};
+
+export const isSolid = (obj: GameObject) => obj.active && obj.solid;
+
+// Stand-in object for a tile, so tiles and solid objects collide the same way
+const tileObject = ({ col, row, id }: TileRef): GameObject => ({
+  ...tileBounds(col, row),
+  type: TILE_PROPERTIES[id].type as TileType,
+  active: true,
+  solid: true
+});
+
+// Solid tiles and objects that may overlap the box, plus `margin` pixels around it
+export const solidsNear = (state: GameState, objects: GameObject[], box: Bounds, margin = 0) => {
+  const area = expandBounds(box, margin);
+  return [
+    ...solidTilesIn(state.tiles, area).map(tileObject),
+    ...queryObjects(state.solids, objects, area).filter(isSolid)
+  ];
+};
+
+// Would `obj` overlap a solid object if it were moved to `nextX`?
+export const hitsSolidAt = (state: GameState, obj: GameObject, nextX: number, objects: GameObject[]) => {
+  return solidsNear(state, objects, { ...obj, x: nextX }).some(other =>
+    other !== obj && isSolid(other) &&
+    nextX < other.x + other.width &&
+    nextX + obj.width > other.x &&
+    obj.y < other.y + other.height &&
+    obj.y + obj.height > other.y
+  );
+};
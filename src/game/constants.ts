@@ -0,0 +1,74 @@
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 400;
+export const GRAVITY = 0.6;
+// Every run starts with this many, whatever the last one ended with
+export const STARTING_LIVES = 3;
+export const GOOMBA_SPEED = 1;
+export const HAMMER_BRO_SPEED = 0.5;
+export const BOWSER_SPEED = 0.6;
+// Each fireball in a firebar, and the gap from one to the next
+export const FIREBAR_SEGMENT_SIZE = 8;
+
+// Mario's hitbox height when small (or crouching) and when big. Big Mario is
+// taller than a tile so that a one-tile gap is one he has to crouch through,
+// while crouching brings him down to small Mario's height to fit.
+export const MARIO_SMALL_HEIGHT = 20;
+export const MARIO_BIG_HEIGHT = 40;
+
+// Mario's movement model. Speeds are pixels per frame, rates are pixels per frame per frame.
+export interface MarioPhysics {
+  walkSpeed: number;
+  runSpeed: number;
+  walkAcceleration: number;
+  runAcceleration: number;
+  // Horizontal acceleration while in the air, in either direction
+  airAcceleration: number;
+  // Slowing down with no direction held, or from run to walk speed
+  releaseDeceleration: number;
+  // Slowing down while holding the opposite direction on the ground
+  skidDeceleration: number;
+  // Below this speed a skid ends and Mario turns around
+  turnAroundSpeed: number;
+  // Top speed when stuck crouching under a low ceiling
+  crouchShuffleSpeed: number;
+  gravity: number;
+  // Gravity while rising with jump held, so longer presses jump higher
+  jumpHoldGravity: number;
+  maxFallSpeed: number;
+  // Take-off speed for jumps, picked by the fastest entry Mario's speed reaches
+  jumpForces: { minSpeed: number; force: number }[];
+  // Frames after walking off a ledge in which Mario can still jump
+  coyoteFrames: number;
+  // Frames before landing in which a jump press is remembered
+  jumpBufferFrames: number;
+  // Upward speed after stomping an enemy
+  stompBounce: number;
+}
+
+// Enemies and items fall with GRAVITY; Mario has his own, see MARIO_PHYSICS
+export const MARIO_PHYSICS: MarioPhysics = {
+  walkSpeed: 3.2,
+  runSpeed: 5.2,
+  walkAcceleration: 0.15,
+  runAcceleration: 0.22,
+  airAcceleration: 0.15,
+  releaseDeceleration: 0.12,
+  skidDeceleration: 0.35,
+  turnAroundSpeed: 1,
+  crouchShuffleSpeed: 1,
+  gravity: 0.9,
+  jumpHoldGravity: 0.38,
+  maxFallSpeed: 15,
+  jumpForces: [
+    { minSpeed: 0, force: -11 },
+    { minSpeed: 3.5, force: -11.4 },
+    { minSpeed: 4.8, force: -12 }
+  ],
+  coyoteFrames: 6,
+  jumpBufferFrames: 6,
+  stompBounce: -7
+};
+
+// The simulation always advances in fixed 60 Hz steps, whatever the display refresh rate
+export const SIMULATION_RATE = 60;
+export const STEP_MS = 1000 / SIMULATION_RATE;
@@ -0,0 +1,51 @@
+import { GRAVITY } from './constants';
+import { restartLevel } from './levels';
+import type { GameObject, GameState } from './types';
+
+// Frames Mario hangs in the air before the death jump
+const DEATH_PAUSE_FRAMES = 30;
+const DEATH_JUMP_SPEED = -10;
+// The jump ends off the bottom of the screen, then the lives screen shows
+export const DEATH_ANIMATION_FRAMES = 150;
+export const LIVES_SCREEN_FRAMES = 150;
+
+// The single way Mario dies, whether hit, crushed by the clock or falling.
+// Everything stops while he jumps off the screen, then the lives screen
+// shows and the level restarts, or the game ends on the last life.
+export const loseLife = (state: GameState, mario: GameObject) => {
+  if (state.death) return;
+
+  mario.active = false;
+  mario.vx = 0;
+  mario.vy = 0;
+  mario.crouching = false;
+  mario.climbing = false;
+  mario.skidding = false;
+  state.lives--;
+  state.death = { frames: 0 };
+  state.events.push('death');
+};
+
+export const updateDeath = (state: GameState, mario: GameObject, objects: GameObject[]): GameState => {
+  const frames = state.death.frames + 1;
+  state.death = { frames };
+  state.objects = objects;
+  state.mario = mario;
+
+  if (frames === DEATH_PAUSE_FRAMES) {
+    mario.vy = DEATH_JUMP_SPEED;
+  } else if (frames > DEATH_PAUSE_FRAMES && frames < DEATH_ANIMATION_FRAMES) {
+    mario.vy += GRAVITY;
+    mario.y += mario.vy;
+  }
+
+  if (frames < DEATH_ANIMATION_FRAMES) return state;
+
+  // No lives screen after the last life
+  if (state.lives <= 0) {
+    state.gameOver = true;
+    state.gameRunning = false;
+    return state;
+  }
+  return frames < DEATH_ANIMATION_FRAMES + LIVES_SCREEN_FRAMES ? state : restartLevel(state);
+};
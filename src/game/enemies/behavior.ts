@@ -0,0 +1,88 @@
+import { checkCollision, hitsSolidAt, solidsNear } from '../collision';
+import { GRAVITY } from '../constants';
+import type { Bounds } from '../spatial';
+import type { GameObject, GameState } from '../types';
+
+// Ways to knock an enemy out other than stomping on it
+export type EnemyHit = 'fire' | 'shell' | 'star' | 'bump';
+
+// Everything the engine needs to know about one kind of enemy
+export interface EnemyBehavior {
+  // Points for knocking it out, or for stomping on it
+  score: number;
+  // Hits that knock it out. Fireballs still burn out on the others.
+  weakTo: readonly EnemyHit[];
+  update: (state: GameState, enemy: GameObject, objects: GameObject[], mario: GameObject) => void;
+  // Mario landed on top of it. Leave out for enemies that hurt to land on.
+  stomp?: (state: GameState, enemy: GameObject, mario: GameObject) => void;
+  // Mario ran into it any other way. Returns whether that hurts him; it does by default.
+  touch?: (state: GameState, enemy: GameObject, mario: GameObject) => boolean;
+  // Whether a box within its bounds really touches it, for enemies that don't
+  // fill their bounds. Anything in its bounds does by default.
+  overlaps?: (enemy: GameObject, box: Bounds) => boolean;
+  // Knocks out other enemies in its way, like a kicked shell
+  knocksOutEnemies?: (enemy: GameObject) => boolean;
+  // It was just knocked out or stomped flat
+  knockedOut?: (state: GameState, enemy: GameObject) => void;
+}
+
+// Enemies below this have fallen down a pit
+export const FALL_LIMIT = 500;
+const MAX_FALL_SPEED = 8;
+
+// Drop under gravity and land on whatever is below
+export const fall = (state: GameState, enemy: GameObject, objects: GameObject[]) => {
+  const prevFeet = enemy.y + enemy.height;
+  enemy.vy = Math.min((enemy.vy || 0) + GRAVITY, MAX_FALL_SPEED);
+  enemy.y += enemy.vy;
+  enemy.grounded = false;
+
+  solidsNear(state, objects, enemy).forEach(solid => {
+    if (solid !== enemy && enemy.vy >= 0 && prevFeet <= solid.y && checkCollision(enemy, solid)) {
+      enemy.y = solid.y - enemy.height;
+      enemy.vy = 0;
+      enemy.grounded = true;
+    }
+  });
+
+  if (enemy.y > FALL_LIMIT) {
+    enemy.active = false;
+  }
+};
+
+// Is there anything to stand on just past the enemy's leading edge?
+const groundAhead = (state: GameState, enemy: GameObject, objects: GameObject[]) => {
+  const edge = (enemy.vx || 0) > 0 ? enemy.x + enemy.width : enemy.x - 1;
+  return solidsNear(state, objects, { x: edge, y: enemy.y + enemy.height, width: 1, height: 1 }).length > 0;
+};
+
+export const turnAround = (enemy: GameObject) => {
+  enemy.vx = -(enemy.vx || 0);
+  enemy.direction = -(enemy.direction || 1);
+};
+
+// Walk forward under gravity, turning around at walls and the level's edges.
+// Careful walkers turn at ledges too; the rest walk off them.
+export const walk = (state: GameState, enemy: GameObject, objects: GameObject[], careful = false) => {
+  fall(state, enemy, objects);
+  if (careful && enemy.grounded && !groundAhead(state, enemy, objects)) {
+    turnAround(enemy);
+  }
+
+  enemy.x += enemy.vx || 0;
+
+  const nextX = enemy.x + (enemy.vx || 0) * 2;
+  if (hitsSolidAt(state, enemy, nextX, objects) || enemy.x <= 32 || enemy.x >= state.area.width - 100) {
+    turnAround(enemy);
+  }
+};
+
+// Move back and forth between minY and maxY
+export const oscillate = (obj: GameObject, defaultMinY: number, defaultMaxY: number) => {
+  obj.y += obj.vy || 0;
+  if (obj.y <= (obj.minY || defaultMinY)) {
+    obj.vy = 1;
+  } else if (obj.y >= (obj.maxY || defaultMaxY)) {
+    obj.vy = -1;
+  }
+};
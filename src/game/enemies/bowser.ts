@@ -0,0 +1,71 @@
+import { CANVAS_WIDTH } from '../constants';
+import type { GameObject } from '../types';
+import { fall, type EnemyBehavior } from './behavior';
+
+// Frames between jumps, and between breaths of fire
+const JUMP_INTERVAL = 200;
+const FIRE_INTERVAL = 150;
+const JUMP_SPEED = -8;
+const FLAME_WIDTH = 24;
+const FLAME_HEIGHT = 8;
+const FLAME_SPEED = 2;
+// Pixels per frame a flame drifts towards the height it was aimed at
+const FLAME_DRIFT = 1;
+
+const breatheFire = (enemy: GameObject, mario: GameObject, objects: GameObject[]) => {
+  objects.push({
+    x: enemy.direction < 0 ? enemy.x - FLAME_WIDTH : enemy.x + enemy.width,
+    y: enemy.y + 8,
+    width: FLAME_WIDTH,
+    height: FLAME_HEIGHT,
+    type: 'flame',
+    active: true,
+    vx: enemy.direction * FLAME_SPEED,
+    direction: enemy.direction,
+    // Aimed at Mario's middle
+    minY: mario.y + (mario.height - FLAME_HEIGHT) / 2
+  });
+};
+
+// Guards the bridge: paces between minX and maxX facing Mario, jumps now and
+// then and breathes fire at him. Can't be stomped or knocked out, only
+// dropped into the lava with the bridge.
+export const bowser: EnemyBehavior = {
+  score: 0,
+  weakTo: [],
+
+  update: (state, enemy, objects, mario) => {
+    enemy.timer = (enemy.timer || 0) + 1;
+    enemy.direction = mario.x < enemy.x ? -1 : 1;
+
+    if ((enemy.x <= enemy.minX && enemy.vx < 0) || (enemy.x >= enemy.maxX && enemy.vx > 0)) {
+      enemy.vx = -enemy.vx;
+    }
+    enemy.x += enemy.vx || 0;
+
+    if (enemy.grounded && enemy.timer % JUMP_INTERVAL === 0) {
+      enemy.vy = JUMP_SPEED;
+    }
+    fall(state, enemy, objects);
+
+    if (enemy.timer % FIRE_INTERVAL === 0 && Math.abs(mario.x - enemy.x) < CANVAS_WIDTH) {
+      breatheFire(enemy, mario, objects);
+    }
+  }
+};
+
+// Flies straight at Mario, drifting to the height it was aimed at, and
+// passes through everything
+export const flame: EnemyBehavior = {
+  score: 0,
+  weakTo: [],
+
+  update: (state, enemy) => {
+    enemy.x += enemy.vx || 0;
+    enemy.y += Math.max(-FLAME_DRIFT, Math.min(enemy.minY - enemy.y, FLAME_DRIFT));
+
+    if (enemy.x + enemy.width < state.camera.x - CANVAS_WIDTH || enemy.x > state.camera.x + CANVAS_WIDTH * 2) {
+      enemy.active = false;
+    }
+  }
+};
@@ -0,0 +1,22 @@
+import { CANVAS_WIDTH } from '../constants';
+import type { EnemyBehavior } from './behavior';
+
+// Flies straight out of its cannon through everything in its way. Fireballs
+// burn out on it without hurting it, but it can be stomped.
+export const bulletBill: EnemyBehavior = {
+  score: 200,
+  weakTo: ['shell', 'star'],
+
+  update: (state, enemy) => {
+    enemy.x += enemy.vx || 0;
+
+    // Gone once it's a screen's width past the edge of the view
+    if (enemy.x + enemy.width < state.camera.x - CANVAS_WIDTH || enemy.x > state.camera.x + CANVAS_WIDTH * 2) {
+      enemy.active = false;
+    }
+  },
+
+  stomp: (state, enemy) => {
+    enemy.active = false;
+  }
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, step } from '../engine';
+import { startLevel, type LevelEntity, type LevelTile } from '../levels';
+import { createEmptyLevel } from '../levels/editing';
+import type { GameObject, GameState } from '../types';
+import { ENEMIES, hitEnemy, type Enemy } from '.';
+
+const run = (state: GameState, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set() });
+  }
+  return state;
+};
+
+// Mario standing at the start of an empty level with the given enemies and extra tiles
+const levelWith = (entities: LevelEntity[], tiles: Partial<LevelTile>[] = []): GameState => {
+  const level = createEmptyLevel();
+  const withEnemies = { ...level, tiles: [...level.tiles, ...tiles.map(tile => ({ ...level.tiles[0], ...tile }))], entities: [...level.entities, ...entities] };
+  return startLevel(createInitialState(withEnemies), withEnemies, 1);
+};
+
+// A platform from x=640 to x=768, its top at y=272
+const PLATFORM: Partial<LevelTile> = { x: 640, y: 272, repeatX: 4 };
+
+const find = (state: GameState, type: GameObject['type']) => state.objects.find(obj => obj.type === type);
+
+// Drop Mario onto the enemy from just above it
+const landOn = (state: GameState, type: GameObject['type']) => {
+  const enemy = find(state, type);
+  return run({ ...state, mario: { ...state.mario, x: enemy.x, y: enemy.y - state.mario.height - 4, vy: 2, grounded: false } }, 3);
+};
+
+describe('walking enemies', () => {
+  it('fall until they land on something', () => {
+    const state = run(levelWith([{ type: 'goomba', x: 400, y: 100, direction: -1 }]), 60);
+    expect(find(state, 'goomba')).toMatchObject({ y: 348, grounded: true });
+  });
+
+  it('walk off ledges, Goombas at least', () => {
+    const state = run(levelWith([{ type: 'goomba', x: 700, y: 252, direction: 1 }], [PLATFORM]), 200);
+    expect(find(state, 'goomba').y).toBe(348);
+  });
+
+  it('turn around at ledges if they are Koopas', () => {
+    let state = levelWith([{ type: 'koopa', x: 700, y: 252, direction: 1 }], [PLATFORM]);
+    for (let i = 0; i < 300; i++) {
+      state = run(state, 1);
+      const koopa = find(state, 'koopa');
+      expect(koopa.y).toBe(252);
+      expect(koopa.x).toBeGreaterThanOrEqual(640 - koopa.width);
+      expect(koopa.x).toBeLessThanOrEqual(768);
+    }
+  });
+
+  it('are gone once they fall down a pit', () => {
+    const ground = createEmptyLevel().tiles[0];
+    const state = levelWith([{ type: 'goomba', x: 700, y: 348, direction: 1 }]);
+    // Take three tiles out of the ground just ahead of the Goomba
+    const level = { ...state.level, tiles: [{ ...ground, repeatX: 23 }, { ...ground, x: 832, repeatX: 34 }] };
+    const pitted = run(startLevel(createInitialState(level), level, 1), 200);
+
+    expect(find(pitted, 'goomba')).toBeUndefined();
+  });
+});
+
+describe('stomping', () => {
+  it('knocks out a Goomba and bounces Mario', () => {
+    const before = levelWith([{ type: 'goomba', x: 400, y: 348, direction: -1 }]);
+    const state = landOn(before, 'goomba');
+
+    expect(find(state, 'goomba')).toBeUndefined();
+    expect(state.score).toBe(before.score + ENEMIES.goomba.score);
+    expect(state.mario.vy).toBeLessThan(0);
+  });
+
+  it('leaves a Koopa\'s shell where its feet were', () => {
+    const state = landOn(levelWith([{ type: 'koopa', x: 400, y: 348, direction: -1 }]), 'koopa');
+    const shell = find(state, 'koopa');
+
+    expect(shell).toMatchObject({ active: true, shell: true, vx: 0 });
+    expect(shell.y + shell.height).toBe(368);
+  });
+
+  it('hurts Mario on a Piranha Plant', () => {
+    const state = landOn(levelWith([{ type: 'piranha', x: 400, y: 300, minY: 280, maxY: 320 }]), 'piranha');
+
+    expect(find(state, 'piranha').active).toBe(true);
+    expect(state.death).not.toBeNull();
+  });
+});
+
+describe('shells', () => {
+  const resting = () => {
+    const state = landOn(levelWith([{ type: 'koopa', x: 400, y: 348, direction: -1 }, { type: 'goomba', x: 900, y: 348, direction: -1 }]), 'koopa');
+    // Out of the way before he comes down on it again
+    return run({ ...state, mario: { ...state.mario, x: 100 } }, 30);
+  };
+
+  it('are kicked away by walking into them', () => {
+    const state = resting();
+    const shell = find(state, 'koopa');
+    const kicked = run({ ...state, mario: { ...state.mario, x: shell.x - state.mario.width + 2, y: 368 - state.mario.height, vy: 0, invincible: 0 } }, 1);
+
+    expect(find(kicked, 'koopa').vx).toBeGreaterThan(0);
+    expect(kicked.death).toBeNull();
+  });
+
+  it('knock out enemies in their way', () => {
+    const state = resting();
+    const kicked = { ...state, objects: state.objects.map(obj => (obj.type === 'koopa' ? { ...obj, vx: 8 } : obj)) };
+
+    expect(find(run(kicked, 90), 'goomba')).toBeUndefined();
+  });
+});
+
+describe('hitEnemy', () => {
+  it('only knocks out enemies weak to the hit', () => {
+    const state = levelWith([{ type: 'piranha', x: 400, y: 300, minY: 280, maxY: 320 }]);
+    const piranha = find(state, 'piranha') as Enemy;
+
+    expect(hitEnemy(state, piranha, 'bump')).toBe(false);
+    expect(piranha.active).toBe(true);
+    expect(hitEnemy(state, piranha, 'fire')).toBe(true);
+    expect(piranha.active).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+import { checkCollision } from '../collision';
+import { FIREBAR_SEGMENT_SIZE } from '../constants';
+import type { GameObject } from '../types';
+import type { EnemyBehavior } from './behavior';
+
+// The fireballs along the bar, from the middle out. The firebar's own bounds
+// cover the whole circle it sweeps.
+export const firebarSegments = (firebar: GameObject) => {
+  const radius = firebar.width / 2;
+  const count = Math.round(radius / FIREBAR_SEGMENT_SIZE);
+  const cos = Math.cos(firebar.angle || 0);
+  const sin = Math.sin(firebar.angle || 0);
+
+  return Array.from({ length: count }, (_, i) => ({
+    x: firebar.x + radius + cos * i * FIREBAR_SEGMENT_SIZE - FIREBAR_SEGMENT_SIZE / 2,
+    y: firebar.y + radius + sin * i * FIREBAR_SEGMENT_SIZE - FIREBAR_SEGMENT_SIZE / 2,
+    width: FIREBAR_SEGMENT_SIZE,
+    height: FIREBAR_SEGMENT_SIZE
+  }));
+};
+
+// A chain of fireballs turning around a block. Only the fireballs themselves
+// hurt or get in the way, and nothing puts them out.
+export const firebar: EnemyBehavior = {
+  score: 0,
+  weakTo: [],
+
+  update: (state, enemy) => {
+    enemy.angle = ((enemy.angle || 0) + (enemy.spin || 0)) % (Math.PI * 2);
+  },
+
+  overlaps: (enemy, box) => firebarSegments(enemy).some(segment => checkCollision(box, segment))
+};
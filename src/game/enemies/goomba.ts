@@ -0,0 +1,10 @@
+import { walk, type EnemyBehavior } from './behavior';
+
+export const goomba: EnemyBehavior = {
+  score: 100,
+  weakTo: ['fire', 'shell', 'star', 'bump'],
+  update: (state, enemy, objects) => walk(state, enemy, objects),
+  stomp: (state, enemy) => {
+    enemy.active = false;
+  }
+};
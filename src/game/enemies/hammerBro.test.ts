@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, step } from '../engine';
+import { getLevel, startLevel, type LevelEntity } from '../levels';
+import { createEmptyLevel } from '../levels/editing';
+import type { GameState } from '../types';
+import { ENEMIES } from '.';
+
+const run = (state: GameState, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set() });
+  }
+  return state;
+};
+
+// A Hammer Bro on the ground at x=1700 under a tier of bricks whose top is at y=272.
+// Mario starts far enough away to be out of sight.
+const playing = (marioX = 50): GameState => {
+  const level = createEmptyLevel();
+  const hammerBro: LevelEntity = { type: 'hammerbro', x: 1700, y: 340, range: 24 };
+  const withBro = { ...level, tiles: [...level.tiles, { ...level.tiles[0], type: 'brick' as const, x: 1632, y: 272, repeatX: 5 }], entities: [hammerBro] };
+  const state = startLevel(createInitialState(withBro), withBro, 1);
+  return { ...state, mario: { ...state.mario, x: marioX, invincible: 0 } };
+};
+
+const bro = (state: GameState) => state.objects.find(obj => obj.type === 'hammerbro');
+const hammers = (state: GameState) => state.objects.filter(obj => obj.type === 'hammer' && obj.active);
+
+describe('Hammer Bros', () => {
+  it('pace back and forth around where they start', () => {
+    let state = playing();
+    for (let i = 0; i < 300; i++) {
+      state = run(state, 1);
+      expect(Math.abs(bro(state).x - 1700)).toBeLessThanOrEqual(25);
+    }
+  });
+
+  it('hop up onto the tier above', () => {
+    const state = run(playing(), 220);
+    expect(bro(state).y + bro(state).height).toBe(272);
+  });
+
+  it('throw hammers at Mario once he is in sight', () => {
+    expect(hammers(run(playing(), 60))).toEqual([]);
+
+    const thrown = hammers(run(playing(1300), 60));
+    expect(thrown).toHaveLength(1);
+    expect(thrown[0].vx).toBeLessThan(0);
+  });
+
+  it('are worth more than other enemies for a stomp', () => {
+    const state = run(playing(1300), 10);
+    const enemy = bro(state);
+    const stomped = run({ ...state, mario: { ...state.mario, x: enemy.x, y: enemy.y - state.mario.height - 4, vy: 2, grounded: false } }, 3);
+
+    expect(bro(stomped)).toBeUndefined();
+    expect(stomped.score).toBe(state.score + ENEMIES.hammerbro.score);
+  });
+
+  it('keep to the high platform they guard in 1-3', () => {
+    const level = getLevel('1-3');
+    let state = startLevel(createInitialState(level), level, 1);
+    for (let i = 0; i < 600; i++) {
+      state = run(state, 1);
+      // The bricks run from x=640 to x=864
+      expect(bro(state).x).toBeGreaterThanOrEqual(640);
+      expect(bro(state).x + bro(state).width).toBeLessThanOrEqual(864);
+    }
+    expect(bro(state).active).toBe(true);
+  });
+});
+
+describe('hammers', () => {
+  it('arc through the air and fall out of the level', () => {
+    // Out of sight again once the hammer is thrown, so it's the only one
+    const thrown = run(playing(1300), 60);
+    let state = { ...thrown, mario: { ...thrown.mario, x: 50 } };
+    const thrownFrom = hammers(state)[0].y;
+    let highest = thrownFrom;
+    for (let i = 0; i < 120 && hammers(state).length; i++) {
+      highest = Math.min(highest, hammers(state)[0].y);
+      state = run(state, 1);
+    }
+
+    expect(highest).toBeLessThan(thrownFrom);
+    expect(hammers(state)).toEqual([]);
+  });
+
+  it('hurt Mario even when he lands on one', () => {
+    const state = run(playing(1300), 60);
+    const [hammer] = hammers(state);
+    const landed = run({ ...state, mario: { ...state.mario, x: hammer.x, y: hammer.y - state.mario.height - 2, vy: 12, grounded: false } }, 1);
+
+    expect(landed.death).not.toBeNull();
+  });
+});
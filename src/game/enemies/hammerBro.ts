@@ -0,0 +1,110 @@
+import { solidsNear } from '../collision';
+import { CANVAS_WIDTH, GRAVITY } from '../constants';
+import { random } from '../random';
+import { TILE_SIZE } from '../tilemap';
+import type { GameObject, GameState } from '../types';
+import { fall, FALL_LIMIT, type EnemyBehavior } from './behavior';
+
+// Frames between hops, and between hammers
+const HOP_INTERVAL = 150;
+const THROW_INTERVAL = 60;
+// Enough to clear a tier up to four tiles above its feet
+const HOP_UP_SPEED = -13;
+const HOP_SPEED = -5;
+const HAMMER_SIZE = 12;
+const HAMMER_SPEED = 2.5;
+const HAMMER_THROW_SPEED = -8;
+
+// Something to land on two to four tiles up
+const tierAbove = (state: GameState, enemy: GameObject, objects: GameObject[]) => {
+  const feet = enemy.y + enemy.height;
+  return solidsNear(state, objects, { x: enemy.x, y: feet - TILE_SIZE * 4, width: enemy.width, height: TILE_SIZE * 2 }).length > 0;
+};
+
+// Something to drop onto under the tier it stands on
+const tierBelow = (state: GameState, enemy: GameObject, objects: GameObject[]) => {
+  const feet = enemy.y + enemy.height;
+  return solidsNear(state, objects, { x: enemy.x, y: feet + TILE_SIZE, width: enemy.width, height: TILE_SIZE * 4 }).length > 0;
+};
+
+// Jump up through the tier above or drop through the one below, picked at
+// random when both are there. With neither it just hops on the spot.
+const hop = (state: GameState, enemy: GameObject, objects: GameObject[]) => {
+  const moves = [
+    ...(tierAbove(state, enemy, objects) ? ['up'] : []),
+    ...(tierBelow(state, enemy, objects) ? ['down'] : [])
+  ];
+  const move = moves.length > 0 ? moves[Math.floor(random(state) * moves.length)] : 'hop';
+
+  if (move === 'up') {
+    enemy.vy = HOP_UP_SPEED;
+  } else if (move === 'down') {
+    // Feet already below the tier's top don't land on it
+    enemy.y += 1;
+  } else {
+    enemy.vy = HOP_SPEED;
+  }
+};
+
+const throwHammer = (enemy: GameObject, objects: GameObject[]) => {
+  objects.push({
+    x: enemy.x + (enemy.width - HAMMER_SIZE) / 2,
+    y: enemy.y - HAMMER_SIZE,
+    width: HAMMER_SIZE,
+    height: HAMMER_SIZE,
+    type: 'hammer',
+    active: true,
+    vx: enemy.direction * HAMMER_SPEED,
+    vy: HAMMER_THROW_SPEED,
+    direction: enemy.direction,
+    timer: 0
+  });
+};
+
+// Paces between minX and maxX facing Mario, hops between tiers of platforms
+// and lobs hammers at him while he's near enough to see
+export const hammerBro: EnemyBehavior = {
+  score: 1000,
+  weakTo: ['fire', 'shell', 'star', 'bump'],
+
+  update: (state, enemy, objects, mario) => {
+    enemy.timer = (enemy.timer || 0) + 1;
+    enemy.direction = mario.x < enemy.x ? -1 : 1;
+
+    enemy.x += enemy.vx || 0;
+    if ((enemy.x <= enemy.minX && enemy.vx < 0) || (enemy.x >= enemy.maxX && enemy.vx > 0)) {
+      enemy.vx = -enemy.vx;
+    }
+
+    if (enemy.grounded && enemy.timer % HOP_INTERVAL === 0) {
+      hop(state, enemy, objects);
+    }
+    fall(state, enemy, objects);
+
+    if (enemy.timer % THROW_INTERVAL === 0 && Math.abs(mario.x - enemy.x) < CANVAS_WIDTH) {
+      throwHammer(enemy, objects);
+    }
+  },
+
+  stomp: (state, enemy) => {
+    enemy.active = false;
+  }
+};
+
+// Arcs through the air, passing through everything. Nothing knocks it out
+// and it can't be stomped on.
+export const hammer: EnemyBehavior = {
+  score: 0,
+  weakTo: [],
+
+  update: (state, enemy) => {
+    enemy.timer = (enemy.timer || 0) + 1;
+    enemy.vy += GRAVITY;
+    enemy.x += enemy.vx || 0;
+    enemy.y += enemy.vy;
+
+    if (enemy.y > FALL_LIMIT) {
+      enemy.active = false;
+    }
+  }
+};
@@ -0,0 +1,91 @@
+import { checkCollision } from '../collision';
+import { CELL_SIZE, expandBounds, queryObjects, type Bounds, type SpatialHash } from '../spatial';
+import type { GameObject, GameState } from '../types';
+import type { EnemyBehavior, EnemyHit } from './behavior';
+import { bowser, flame } from './bowser';
+import { bulletBill } from './bulletBill';
+import { firebar } from './firebar';
+import { goomba } from './goomba';
+import { hammer, hammerBro } from './hammerBro';
+import { koopa } from './koopa';
+import { lakitu } from './lakitu';
+import { enemyModifiers } from './modifiers';
+import { piranha } from './piranha';
+import { podoboo } from './podoboo';
+import { spiny, spinyEgg } from './spiny';
+
+export type { EnemyBehavior, EnemyHit } from './behavior';
+export { enemyModifiers, type EnemyModifier } from './modifiers';
+
+// Every kind of enemy. Adding one means a module here, an entry in the level
+// schema and loader, and a case in the renderer. Variations such as wings are
+// modifiers (see modifiers.ts) rather than kinds of their own.
+export type EnemyType = 'goomba' | 'koopa' | 'piranha' | 'hammerbro' | 'hammer' | 'lakitu' | 'spiny' | 'spinyegg' | 'bullet'
+  | 'firebar' | 'podoboo' | 'bowser' | 'flame';
+
+export const ENEMIES: Record<EnemyType, EnemyBehavior> = {
+  goomba,
+  koopa,
+  piranha,
+  hammerbro: hammerBro,
+  hammer,
+  lakitu,
+  spiny,
+  spinyegg: spinyEgg,
+  bullet: bulletBill,
+  firebar,
+  podoboo,
+  bowser,
+  flame
+};
+
+export type Enemy = GameObject & { type: EnemyType };
+
+export const isEnemy = (obj: GameObject): obj is Enemy => obj.type in ENEMIES;
+
+// Does the box really touch the enemy, not just its bounds?
+export const touchesEnemy = (enemy: Enemy, box: Bounds) =>
+  checkCollision(box, enemy) && (ENEMIES[enemy.type].overlaps?.(enemy, box) ?? true);
+
+// Enemies are indexed once per frame, before they move. Queries look a cell
+// further out to catch anything that moved (or landed) since.
+export const enemiesNear = (enemies: SpatialHash, objects: GameObject[], obj: GameObject) =>
+  queryObjects(enemies, objects, expandBounds(obj, CELL_SIZE));
+
+// Knock an enemy out if the hit can. Returns whether it did.
+export const hitEnemy = (state: GameState, enemy: Enemy, hit: EnemyHit) => {
+  const behavior = ENEMIES[enemy.type];
+  if (!behavior.weakTo.includes(hit)) return false;
+
+  enemy.active = false;
+  behavior.knockedOut?.(state, enemy);
+  state.score += behavior.score;
+  state.events.push('stomp');
+  return true;
+};
+
+// Bring back knocked out enemies whose time has come, just off the left edge
+// of the screen
+export const updateRespawns = (state: GameState, objects: GameObject[]) => {
+  if (state.respawns.length === 0) return;
+
+  const respawns = state.respawns.map(respawn => ({ ...respawn, frames: respawn.frames - 1 }));
+  respawns.filter(respawn => respawn.frames <= 0).forEach(({ enemy }) => {
+    objects.push({ ...enemy, x: state.camera.x - enemy.width });
+  });
+  state.respawns = respawns.filter(respawn => respawn.frames > 0);
+};
+
+export const updateEnemy = (state: GameState, enemy: Enemy, objects: GameObject[], enemies: SpatialHash, mario: GameObject) => {
+  const behavior = ENEMIES[enemy.type];
+  const update = enemyModifiers(enemy).find(modifier => modifier.update)?.update ?? behavior.update;
+  update(state, enemy, objects, mario);
+
+  if (behavior.knocksOutEnemies?.(enemy)) {
+    enemiesNear(enemies, objects, enemy).forEach(other => {
+      if (other !== enemy && other.active && isEnemy(other) && touchesEnemy(other, enemy)) {
+        hitEnemy(state, other, 'shell');
+      }
+    });
+  }
+};
@@ -0,0 +1,54 @@
+import type { GameObject } from '../types';
+import { fall, walk, type EnemyBehavior } from './behavior';
+
+const SHELL_SIZE = 16;
+const SHELL_SPEED = 8;
+
+const kick = (enemy: GameObject, mario: GameObject) => {
+  enemy.vx = mario.x < enemy.x ? SHELL_SPEED : -SHELL_SPEED;
+};
+
+// Walks back and forth without falling off ledges. Stomping it leaves a shell
+// that can be kicked into other enemies.
+export const koopa: EnemyBehavior = {
+  score: 100,
+  weakTo: ['fire', 'shell', 'star', 'bump'],
+
+  update: (state, enemy, objects) => {
+    if (!enemy.shell) {
+      walk(state, enemy, objects, true);
+    } else if (enemy.vx !== 0) {
+      // Moving shells bounce off walls and slide off ledges
+      walk(state, enemy, objects);
+    } else {
+      fall(state, enemy, objects);
+    }
+  },
+
+  stomp: (state, enemy, mario) => {
+    if (!enemy.shell) {
+      // Into the shell, keeping its feet where they were
+      enemy.shell = true;
+      enemy.vx = 0;
+      enemy.y += enemy.height - SHELL_SIZE;
+      enemy.width = SHELL_SIZE;
+      enemy.height = SHELL_SIZE;
+    } else {
+      kick(enemy, mario);
+    }
+  },
+
+  // Walking into a resting shell kicks it; a moving one passes Mario by
+  touch: (state, enemy, mario) => {
+    if (!enemy.shell) return true;
+
+    if (enemy.vx === 0) {
+      kick(enemy, mario);
+      state.score += koopa.score;
+      state.events.push('stomp');
+    }
+    return false;
+  },
+
+  knocksOutEnemies: enemy => !!enemy.shell && enemy.vx !== 0
+};
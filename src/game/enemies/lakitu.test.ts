@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { CANVAS_WIDTH } from '../constants';
+import { createInitialState, step } from '../engine';
+import { startLevel } from '../levels';
+import { createEmptyLevel } from '../levels/editing';
+import type { GameObject, GameState } from '../types';
+import { hitEnemy, type Enemy } from '.';
+
+const run = (state: GameState, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set() });
+  }
+  return state;
+};
+
+// Mario at the start of an empty level with a Lakitu floating at x
+const withLakitu = (x: number): GameState => {
+  const level = createEmptyLevel();
+  const withCloud = { ...level, entities: [{ type: 'lakitu' as const, x, y: 150 }] };
+  const state = startLevel(createInitialState(withCloud), withCloud, 1);
+  return { ...state, mario: { ...state.mario, invincible: 0 } };
+};
+
+const lakitu = (state: GameState) => state.objects.find(obj => obj.type === 'lakitu');
+const ofType = (state: GameState, type: GameObject['type']) => state.objects.filter(obj => obj.type === type && obj.active);
+
+describe('Lakitu', () => {
+  it('waits where the level puts it until it scrolls into view', () => {
+    const state = run(withLakitu(1500), 120);
+    expect(lakitu(state)).toMatchObject({ x: 1500, moving: false });
+    expect(ofType(state, 'spinyegg')).toEqual([]);
+  });
+
+  it('keeps up with the camera, swaying around the middle of the screen', () => {
+    let state = run(withLakitu(600), 60);
+    for (let i = 0; i < 300; i++) {
+      state = run(state, 1);
+      expect(Math.abs(lakitu(state).x - (state.camera.x + CANVAS_WIDTH / 2))).toBeLessThanOrEqual(240 + 10);
+    }
+  });
+
+  it('throws Spiny eggs that hatch where they land', () => {
+    const thrown = run(withLakitu(600), 120);
+    const [egg] = ofType(thrown, 'spinyegg');
+    expect(egg.vy).toBeLessThan(0);
+
+    const hatched = run(thrown, 60);
+    const [spiny] = ofType(hatched, 'spiny');
+    expect(spiny.y + spiny.height).toBe(368);
+    // Walking towards Mario
+    expect(spiny.vx).toBeLessThan(0);
+  });
+
+  it('holds back while there are three Spinies about', () => {
+    const state = run(withLakitu(600), 119);
+    const spinies: GameObject[] = [0, 1, 2].map(i => ({ x: 1200 + i * 40, y: 348, width: 20, height: 20, type: 'spiny', active: true, vx: 0 }));
+
+    expect(ofType(run({ ...state, objects: [...state.objects, ...spinies] }, 1), 'spinyegg')).toEqual([]);
+  });
+
+  it('comes back just off the left of the screen a while after being knocked out', () => {
+    const state = run(withLakitu(600), 10);
+    hitEnemy(state, lakitu(state) as Enemy, 'fire');
+    expect(ofType(state, 'lakitu')).toEqual([]);
+
+    const back = run(state, 600);
+    const [respawned] = ofType(back, 'lakitu');
+    expect(respawned.x).toBeLessThan(back.camera.x + CANVAS_WIDTH / 2);
+    expect(back.respawns).toEqual([]);
+  });
+});
+
+describe('Spinies', () => {
+  it('hurt Mario when he lands on one', () => {
+    const state = run(withLakitu(600), 180);
+    const [spiny] = ofType(state, 'spiny');
+    const landed = run({ ...state, mario: { ...state.mario, x: spiny.x, y: spiny.y - state.mario.height - 2, vy: 4, grounded: false } }, 1);
+
+    expect(landed.death).not.toBeNull();
+    expect(ofType(landed, 'spiny')).toHaveLength(1);
+  });
+});
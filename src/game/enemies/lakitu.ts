@@ -0,0 +1,66 @@
+import { CANVAS_WIDTH } from '../constants';
+import type { GameObject } from '../types';
+import type { EnemyBehavior } from './behavior';
+
+const MAX_SPEED = 5;
+// Frames to close the gap to where it wants to be, so it eases in and out
+const EASING = 16;
+// Sways this far either side of the middle of the screen, once every SWAY_FRAMES * 2π frames
+const SWAY = 240;
+const SWAY_FRAMES = 60;
+const THROW_INTERVAL = 120;
+// Lakitu holds back while this many Spinies are about
+const MAX_SPINIES = 3;
+const RESPAWN_FRAMES = 600;
+const EGG_SIZE = 16;
+const EGG_THROW_SPEED = -5;
+
+const spiniesAbout = (objects: GameObject[]) =>
+  objects.filter(obj => obj.active && (obj.type === 'spiny' || obj.type === 'spinyegg')).length;
+
+// Rides a cloud above the screen, keeping up with the camera and swaying
+// from side to side. Throws Spiny eggs at Mario and comes back a while after
+// being knocked out.
+export const lakitu: EnemyBehavior = {
+  score: 800,
+  weakTo: ['fire', 'shell', 'star', 'bump'],
+
+  update: (state, enemy, objects, mario) => {
+    // Waits where the level puts it until it scrolls into view
+    if (!enemy.moving) {
+      if (enemy.x > state.camera.x + CANVAS_WIDTH) return;
+      enemy.moving = true;
+    }
+
+    enemy.timer = (enemy.timer || 0) + 1;
+    const sway = Math.sin(enemy.timer / SWAY_FRAMES) * SWAY;
+    const target = Math.max(0, Math.min(state.camera.x + CANVAS_WIDTH / 2 + sway, state.area.width - enemy.width));
+    enemy.vx = Math.max(-MAX_SPEED, Math.min((target - enemy.x) / EASING, MAX_SPEED));
+    enemy.x += enemy.vx;
+    enemy.direction = mario.x < enemy.x ? -1 : 1;
+
+    if (enemy.timer % THROW_INTERVAL === 0 && spiniesAbout(objects) < MAX_SPINIES) {
+      objects.push({
+        x: enemy.x + (enemy.width - EGG_SIZE) / 2,
+        y: enemy.y - EGG_SIZE,
+        width: EGG_SIZE,
+        height: EGG_SIZE,
+        type: 'spinyegg',
+        active: true,
+        vx: enemy.direction,
+        vy: EGG_THROW_SPEED
+      });
+    }
+  },
+
+  stomp: (state, enemy) => {
+    enemy.active = false;
+  },
+
+  knockedOut: (state, enemy) => {
+    state.respawns = [
+      ...state.respawns,
+      { frames: RESPAWN_FRAMES, enemy: { ...enemy, active: true, vx: 0, timer: 0, moving: true } }
+    ];
+  }
+};
@@ -0,0 +1,21 @@
+import type { EnemyModifiers, GameObject, GameState } from '../types';
+import { winged } from './winged';
+
+// The parts of an enemy's behaviour a modifier takes over while it lasts
+export interface EnemyModifier {
+  // Moves the enemy instead of its own update
+  update?: (state: GameState, enemy: GameObject, objects: GameObject[], mario: GameObject) => void;
+  // Mario landed on top of it. Takes the stomp instead of the enemy, usually
+  // by dropping the modifier.
+  stomp?: (state: GameState, enemy: GameObject, mario: GameObject) => void;
+}
+
+export const MODIFIERS: Record<keyof EnemyModifiers, EnemyModifier> = {
+  winged
+};
+
+// The modifiers an enemy still has
+export const enemyModifiers = (enemy: GameObject) =>
+  (Object.keys(enemy.modifiers ?? {}) as (keyof EnemyModifiers)[])
+    .filter(name => enemy.modifiers[name] !== undefined)
+    .map(name => MODIFIERS[name]);
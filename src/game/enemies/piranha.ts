@@ -0,0 +1,8 @@
+import { oscillate, type EnemyBehavior } from './behavior';
+
+// Bobs in and out of its pipe, and can't be stomped
+export const piranha: EnemyBehavior = {
+  score: 100,
+  weakTo: ['fire', 'star'],
+  update: (state, enemy) => oscillate(enemy, 200, 300)
+};
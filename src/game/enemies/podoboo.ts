@@ -0,0 +1,28 @@
+import { GRAVITY } from '../constants';
+import type { EnemyBehavior } from './behavior';
+
+// Frames spent under the lava between leaps
+const WAIT_FRAMES = 90;
+
+// Waits at maxY, out of sight below the lava, then leaps up to minY and
+// drops back in. Nothing puts it out.
+export const podoboo: EnemyBehavior = {
+  score: 0,
+  weakTo: [],
+
+  update: (state, enemy) => {
+    if (enemy.y >= enemy.maxY && enemy.vy >= 0) {
+      enemy.y = enemy.maxY;
+      enemy.vy = 0;
+      enemy.timer = (enemy.timer || 0) + 1;
+      if (enemy.timer < WAIT_FRAMES) return;
+
+      // Just fast enough to reach minY
+      enemy.timer = 0;
+      enemy.vy = -Math.sqrt(2 * GRAVITY * (enemy.maxY - enemy.minY));
+    }
+
+    enemy.vy += GRAVITY;
+    enemy.y += enemy.vy;
+  }
+};
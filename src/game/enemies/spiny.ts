@@ -0,0 +1,31 @@
+import { GOOMBA_SPEED } from '../constants';
+import { fall, walk, type EnemyBehavior } from './behavior';
+
+const SPINY_SIZE = 20;
+
+// Covered in spikes, so it hurts to land on
+export const spiny: EnemyBehavior = {
+  score: 200,
+  weakTo: ['fire', 'shell', 'star', 'bump'],
+  update: (state, enemy, objects) => walk(state, enemy, objects)
+};
+
+// Falls from Lakitu's hand and hatches into a Spiny walking towards Mario
+// wherever it lands
+export const spinyEgg: EnemyBehavior = {
+  score: 200,
+  weakTo: ['fire', 'shell', 'star', 'bump'],
+
+  update: (state, enemy, objects, mario) => {
+    enemy.x += enemy.vx || 0;
+    fall(state, enemy, objects);
+    if (!enemy.grounded) return;
+
+    enemy.type = 'spiny';
+    enemy.direction = mario.x < enemy.x ? -1 : 1;
+    enemy.vx = enemy.direction * GOOMBA_SPEED;
+    enemy.y -= SPINY_SIZE - enemy.height;
+    enemy.width = SPINY_SIZE;
+    enemy.height = SPINY_SIZE;
+  }
+};
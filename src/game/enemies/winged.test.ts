@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, step } from '../engine';
+import { startLevel, type LevelEntity } from '../levels';
+import { createEmptyLevel } from '../levels/editing';
+import type { GameState } from '../types';
+
+const run = (state: GameState, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set() });
+  }
+  return state;
+};
+
+// Mario at the start of an empty level with one winged enemy in it
+const withEnemy = (entity: LevelEntity): GameState => {
+  const level = createEmptyLevel();
+  const withOne = { ...level, entities: [entity] };
+  const state = startLevel(createInitialState(withOne), withOne, 1);
+  return { ...state, mario: { ...state.mario, invincible: 0 } };
+};
+
+const enemy = (state: GameState) => state.objects.find(obj => obj.type === 'goomba' || obj.type === 'koopa');
+
+// Drop Mario onto the enemy from just above it
+const stomp = (state: GameState) => {
+  const target = enemy(state);
+  return run({ ...state, mario: { ...state.mario, x: target.x, y: target.y - state.mario.height - 4, vy: 2, grounded: false } }, 2);
+};
+
+// Lowest and highest y, and leftmost and rightmost x, over some frames
+const track = (state: GameState, frames: number) => {
+  const seen = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+  for (let i = 0; i < frames; i++) {
+    state = run(state, 1);
+    const { x, y } = enemy(state);
+    seen.minX = Math.min(seen.minX, x);
+    seen.maxX = Math.max(seen.maxX, x);
+    seen.minY = Math.min(seen.minY, y);
+    seen.maxY = Math.max(seen.maxY, y);
+  }
+  return seen;
+};
+
+describe('Paragoombas', () => {
+  const paragoomba = () => withEnemy({ type: 'goomba', x: 600, y: 348, direction: -1, wings: 'hop' });
+
+  it('hop along as they walk', () => {
+    const seen = track(paragoomba(), 120);
+
+    expect(seen.minY).toBeLessThan(348 - 20);
+    expect(seen.maxY).toBe(348);
+    expect(seen.minX).toBeLessThan(600 - 100);
+  });
+
+  it('lose their wings when stomped and walk on', () => {
+    const stomped = stomp(run(paragoomba(), 1));
+    expect(enemy(stomped)).toMatchObject({ active: true, modifiers: { winged: undefined } });
+
+    // Out of the way before he comes down on it again
+    const walking = { ...stomped, mario: { ...stomped.mario, x: 50 } };
+    const seen = track(walking, 120);
+    expect(seen.minY).toBeGreaterThanOrEqual(348 - 20);
+    expect(enemy(run(walking, 120))).toMatchObject({ y: 348, grounded: true });
+  });
+
+  it('go flat on a second stomp', () => {
+    const stomped = stomp(run(paragoomba(), 1));
+    const again = stomp(run({ ...stomped, mario: { ...stomped.mario, x: 50 } }, 90));
+    expect(enemy(again).active).toBe(false);
+  });
+
+  it('lose their wings without touching earlier states', () => {
+    const before = run(paragoomba(), 1);
+    stomp(before);
+    expect(enemy(before).modifiers).toEqual({ winged: 'hop' });
+  });
+});
+
+describe('Paratroopas', () => {
+  it('fly up and down within their range', () => {
+    const seen = track(withEnemy({ type: 'koopa', x: 600, y: 200, direction: -1, wings: 'vertical', range: 48 }), 300);
+
+    expect(seen).toMatchObject({ minX: 600, maxX: 600 });
+    expect(seen.minY).toBeCloseTo(200 - 48, 0);
+    expect(seen.maxY).toBeCloseTo(200 + 48, 0);
+  });
+
+  it('fly side to side within their range without falling', () => {
+    const seen = track(withEnemy({ type: 'koopa', x: 600, y: 200, direction: -1, wings: 'horizontal', range: 48 }), 300);
+
+    expect(seen).toMatchObject({ minY: 200, maxY: 200 });
+    expect(seen.minX).toBeGreaterThanOrEqual(600 - 48 - 1);
+    expect(seen.maxX).toBeLessThanOrEqual(600 + 48 + 1);
+  });
+
+  it('drop to the ground as a plain Koopa when stomped', () => {
+    const stomped = stomp(run(withEnemy({ type: 'koopa', x: 600, y: 200, direction: -1, wings: 'horizontal' }), 1));
+    expect(enemy(stomped)).toMatchObject({ shell: false, modifiers: { winged: undefined } });
+
+    const landed = enemy(run({ ...stomped, mario: { ...stomped.mario, x: 50 } }, 120));
+    expect(landed.y + landed.height).toBe(368);
+  });
+});
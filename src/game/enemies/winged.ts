@@ -0,0 +1,36 @@
+import { oscillate, turnAround, walk } from './behavior';
+import type { EnemyModifier } from './modifiers';
+
+const HOP_SPEED = -7;
+
+// Hops along as it walks, or flies back and forth between minY and maxY, or
+// minX and maxX, at the speed it would walk. Stomping it knocks the wings off
+// and it walks on from wherever it lands.
+export const winged: EnemyModifier = {
+  update: (state, enemy, objects) => {
+    switch (enemy.modifiers.winged) {
+      case 'hop':
+        walk(state, enemy, objects);
+        if (enemy.grounded) {
+          enemy.vy = HOP_SPEED;
+        }
+        break;
+
+      case 'vertical':
+        oscillate(enemy, enemy.minY, enemy.maxY);
+        break;
+
+      case 'horizontal':
+        enemy.x += enemy.vx || 0;
+        if ((enemy.x <= enemy.minX && enemy.vx < 0) || (enemy.x >= enemy.maxX && enemy.vx > 0)) {
+          turnAround(enemy);
+        }
+        break;
+    }
+  },
+
+  stomp: (state, enemy) => {
+    enemy.modifiers = { ...enemy.modifiers, winged: undefined };
+    enemy.vy = 0;
+  }
+};
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { CANVAS_HEIGHT } from './constants';
+import { DEATH_ANIMATION_FRAMES, LIVES_SCREEN_FRAMES } from './death';
+import { createInitialState, step } from './engine';
+import type { Action } from './input';
+import { getLevel, startLevel, type LevelDefinition } from './levels';
+import { stateChecksum } from './replay';
+import type { GameObject, GameState } from './types';
+
+const ENEMY_TYPES = ['goomba', 'koopa', 'piranha'];
+
+const playing = (level = getLevel('1-1'), seed = 1): GameState => startLevel(createInitialState(level), level, seed);
+
+// The level with its enemies knocked out, so nothing gets in Mario's way
+const withoutEnemies = (state: GameState): GameState =>
+  ({ ...state, objects: state.objects.map(obj => (ENEMY_TYPES.includes(obj.type) ? { ...obj, active: false } : obj)) });
+
+const run = (state: GameState, frames: number, ...actions: Action[]) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set(actions) });
+  }
+  return state;
+};
+
+describe('step', () => {
+  it('leaves the previous state untouched', () => {
+    const prev = playing();
+    const before = JSON.stringify(prev);
+
+    run(prev, 60, 'right', 'jump');
+
+    expect(JSON.stringify(prev)).toBe(before);
+  });
+
+  it('ends up in the same state from the same seed and inputs', () => {
+    const inputs: Action[][] = [['right'], ['right', 'jump'], [], ['left'], ['fire', 'right']];
+    const play = () => inputs.reduce((state, actions) => run(state, 90, ...actions), playing(getLevel('1-1'), 1234));
+
+    expect(stateChecksum(play())).toBe(stateChecksum(play()));
+  });
+
+  it('drops objects out of play and still collides with the rest', () => {
+    const state = withoutEnemies(playing());
+    const gone: GameObject = { x: 0, y: 0, width: 16, height: 16, type: 'coin', active: false };
+    // Standing on the pipe down to the coin room, behind objects going out of play
+    const onPipe = { ...state, objects: [gone, gone, ...state.objects], mario: { ...state.mario, x: 940, y: 240 - state.mario.height, grounded: true } };
+    const next = run(onPipe, 30);
+
+    expect(next.objects).toHaveLength(state.objects.filter(obj => obj.active).length);
+    expect(next.mario.y).toBe(240 - state.mario.height);
+  });
+
+  it('does nothing until the game is running', () => {
+    const state = { ...playing(), gameRunning: false };
+    expect(run(state, 10, 'right').mario.x).toBe(state.mario.x);
+  });
+
+  it('reports sounds as events of the step that made them', () => {
+    const landed = run(playing(), 60);
+    const jumped = step(landed, { actions: new Set(['jump']) });
+
+    expect(jumped.events).toEqual(['jump']);
+    expect(step(jumped, { actions: new Set() }).events).toEqual([]);
+  });
+
+  it('lands Mario on the ground', () => {
+    const state = run(playing(), 60);
+    expect(state.mario).toMatchObject({ y: 368 - state.mario.height, vy: 0, grounded: true });
+  });
+});
+
+describe('finishing a level', () => {
+  const atFlag = (level: LevelDefinition) => {
+    const state = withoutEnemies(playing(level));
+    const flag = state.objects.find(obj => obj.type === 'flag');
+    return { ...state, mario: { ...state.mario, x: flag.x - 10, y: flag.y + 40 } };
+  };
+
+  it('goes on to the next level after the flag', () => {
+    const state = run(atFlag(getLevel('1-1')), 300, 'right');
+    expect(state.level.id).toBe('1-2');
+  });
+
+  it('wins the run after the last level', () => {
+    const state = run(atFlag(getLevel('4-1')), 300, 'right');
+
+    expect(state.gameWon).toBe(true);
+    expect(state.gameRunning).toBe(false);
+  });
+
+  it('ends the run when the next level does not exist', () => {
+    const state = run(atFlag({ ...getLevel('1-1'), next: '9-9' }), 300, 'right');
+
+    expect(state.gameWon).toBe(true);
+    expect(state.gameRunning).toBe(false);
+  });
+});
+
+describe('losing a life', () => {
+  // Run the clock down to its last frame
+  const outOfTime = (state: GameState): GameState => ({ ...state, time: 0.01 });
+  // Through the death jump and the lives screen
+  const afterDeath = (state: GameState) => run(run(outOfTime(state), 1), DEATH_ANIMATION_FRAMES + LIVES_SCREEN_FRAMES);
+
+  it('freezes the level while Mario jumps up and off the screen', () => {
+    const dead = run(outOfTime(run(playing(), 60)), 1);
+    const goombas = (state: GameState) => state.objects.filter(obj => obj.type === 'goomba').map(obj => obj.x);
+    expect(dead.events).toContain('death');
+    expect(dead.death).toEqual({ frames: 0 });
+
+    const paused = run(dead, 20, 'right');
+    expect(paused.mario.y).toBe(dead.mario.y);
+    expect(goombas(paused)).toEqual(goombas(dead));
+
+    let lowest = dead.mario.y;
+    let highest = dead.mario.y;
+    for (let state = dead, i = 0; i < DEATH_ANIMATION_FRAMES; i++) {
+      state = step(state, { actions: new Set() });
+      lowest = Math.max(lowest, state.mario.y);
+      highest = Math.min(highest, state.mario.y);
+    }
+    expect(highest).toBeLessThan(dead.mario.y);
+    expect(lowest).toBeGreaterThan(CANVAS_HEIGHT);
+  });
+
+  it('happens falling into a pit', () => {
+    // Stepping off the end of 1-3's first stretch of ground
+    const state = withoutEnemies(playing(getLevel('1-3')));
+    let falling = { ...state, mario: { ...state.mario, x: 470, y: 348 } };
+    for (let i = 0; i < 120 && !falling.death; i++) {
+      falling = step(falling, { actions: new Set(['right']) });
+    }
+
+    expect(falling.death).not.toBeNull();
+    expect(falling.lives).toBe(state.lives - 1);
+  });
+
+  it('starts the level over with a small Mario at the spawn point', () => {
+    const played = run(withoutEnemies(playing()), 120, 'right');
+    const state = afterDeath({ ...played, mario: { ...played.mario, big: true } });
+
+    expect(state.lives).toBe(played.lives - 1);
+    expect(state.death).toBeNull();
+    expect(state.time).toBe(state.level.timeLimit);
+    expect(state.mario).toMatchObject({ x: state.level.spawn.x, y: state.level.spawn.y, big: false, active: true });
+    expect(state.mario.invincible).toBeGreaterThan(0);
+  });
+
+  it('puts back the enemies and blocks as the level was first loaded', () => {
+    const state = afterDeath(withoutEnemies(playing()));
+
+    expect(state.objects.filter(obj => ENEMY_TYPES.includes(obj.type)).every(obj => obj.active)).toBe(true);
+    expect(state.tiles).toEqual(playing().tiles);
+  });
+
+  it('starts from the furthest checkpoint Mario has passed', () => {
+    const [checkpoint] = getLevel('1-1').checkpoints;
+    const state = playing();
+    const passed = run({ ...state, mario: { ...state.mario, x: checkpoint.x + 10 } }, 1);
+    expect(passed.checkpoint).toBe(0);
+
+    const restarted = afterDeath(passed);
+    expect(restarted.mario).toMatchObject({ x: checkpoint.x, y: checkpoint.y });
+    expect(restarted.checkpoint).toBe(0);
+  });
+
+  it('ends the game after the death jump on the last life', () => {
+    const dead = run({ ...outOfTime(playing()), lives: 1 }, 1);
+    expect(dead.gameRunning).toBe(true);
+
+    const state = run(dead, DEATH_ANIMATION_FRAMES);
+    expect(state.gameOver).toBe(true);
+    expect(state.gameRunning).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import { updateBumps } from './blocks';
+import { updateCastleClear } from './castle';
+import { isSolid } from './collision';
+import { CANVAS_WIDTH, SIMULATION_RATE, STARTING_LIVES } from './constants';
+import { loseLife, updateDeath } from './death';
+import { updateEntities } from './entities';
+import { handleInteractions } from './interactions';
+import { advanceToLevel, createMario, findArea, getLevel, MAIN_AREA, nextLevel } from './levels';
+import { applyMarioInput, moveMario, resolveMarioCollisions } from './physics';
+import { tryEnterPipe, updatePipeTransition } from './pipes';
+import { createSpatialHash } from './spatial';
+import { createTileMap } from './tilemap';
+import type { GameObject, GameState, InputFrame } from './types';
+import { climbVine, grabVine } from './vines';
+
+export const createInitialState = (level = getLevel('1-1')): GameState => ({
+  mario: createMario(level.spawn),
+  objects: [],
+  tiles: createTileMap(0),
+  solids: createSpatialHash([], isSolid),
+  camera: { x: 0, y: 0 },
+  score: 0,
+  lives: STARTING_LIVES,
+  coins: 0,
+  gameRunning: false,
+  gameWon: false,
+  gameOver: false,
+  actions: new Set(),
+  pressed: new Set(),
+  level,
+  area: findArea(level, MAIN_AREA),
+  savedAreas: {},
+  time: level.timeLimit,
+  flagSliding: false,
+  flagAnimationProgress: 0,
+  pipeTransition: null,
+  castleClear: null,
+  bumps: [],
+  respawns: [],
+  death: null,
+  checkpoint: null,
+  rngState: 0,
+  events: []
+});
+
+// Slide down the pole, walk into the castle, then move on to the next level
+const updateFlagSequence = (state: GameState, mario: GameObject, objects: GameObject[]): GameState => {
+  state.flagAnimationProgress += 1;
+
+  if (state.flagAnimationProgress < 120) {
+    // Slide down the flag pole
+    mario.y += 1.5;
+    mario.x = objects.find(obj => obj.type === 'flag')?.x + 24 || mario.x; // Stay on pole
+  } else if (state.flagAnimationProgress < 180) {
+    // Move toward castle entrance
+    mario.x += 2;
+    if (mario.y < 336) { // Make sure Mario is on ground
+      mario.y = 336;
+    }
+  } else if (state.flagAnimationProgress >= 240) {
+    state.score += 5000;
+    const next = nextLevel(state.level);
+    if (next) {
+      return advanceToLevel({ ...state, mario }, next);
+    }
+    state.gameWon = true;
+    state.gameRunning = false;
+  }
+
+  // Don't apply normal physics/controls during flag animation
+  mario.vy = 0;
+  mario.grounded = true;
+  state.mario = mario;
+  state.objects = objects;
+  return state;
+};
+
+// Update camera to follow Mario smoothly
+const updateCamera = (state: GameState, mario: GameObject) => {
+  const targetCameraX = Math.max(0, Math.min(mario.x - CANVAS_WIDTH / 2, state.area.width - CANVAS_WIDTH));
+  state.camera.x = state.camera.x + (targetCameraX - state.camera.x) * 0.1;
+};
+
+const updateTimer = (state: GameState, mario: GameObject) => {
+  if (state.time <= 0) return;
+
+  state.time -= 1 / SIMULATION_RATE; // One simulation frame
+  if (state.time <= 0) {
+    // Time up - Mario dies
+    state.time = 0;
+    loseLife(state, mario);
+  }
+};
+
+// Remember the furthest checkpoint Mario has walked past in the main area
+const updateCheckpoint = (state: GameState, mario: GameObject) => {
+  if (state.area.id !== MAIN_AREA) return;
+
+  // Checkpoints are listed left to right
+  const { checkpoints } = state.level;
+  let passed = state.checkpoint ?? -1;
+  while (passed + 1 < checkpoints.length && mario.x >= checkpoints[passed + 1].x) {
+    passed++;
+  }
+  state.checkpoint = passed < 0 ? null : passed;
+};
+
+// Advance the simulation by one frame. The previous state is left untouched.
+export const step = (prev: GameState, input: InputFrame): GameState => {
+  if (!prev.gameRunning) {
+    return prev.events.length ? { ...prev, events: [] } : prev;
+  }
+
+  const state: GameState = {
+    ...prev,
+    actions: new Set(input.actions),
+    pressed: new Set([...input.actions].filter(action => !prev.actions.has(action))),
+    camera: { ...prev.camera },
+    events: []
+  };
+  const mario = { ...prev.mario };
+  // Whatever went out of play last step is dropped, and the solid objects
+  // left are indexed again as the list has shifted
+  const objects = prev.objects.filter(obj => obj.active).map(obj => ({ ...obj }));
+  state.solids = createSpatialHash(objects, isSolid);
+
+  // Decrease invincibility timer
+  if (mario.invincible > 0) {
+    mario.invincible--;
+  }
+
+  if (state.flagSliding) {
+    return updateFlagSequence(state, mario, objects);
+  }
+
+  if (state.castleClear) {
+    return updateCastleClear(state, mario, objects);
+  }
+
+  if (state.pipeTransition) {
+    return updatePipeTransition(state, mario, objects);
+  }
+
+  if (state.death) {
+    return updateDeath(state, mario, objects);
+  }
+
+  updateBumps(state);
+
+  if (mario.climbing) {
+    const warped = climbVine(state, mario, objects);
+    if (warped) return warped;
+  } else {
+    applyMarioInput(state, mario, objects);
+
+    const prevY = mario.y;
+    moveMario(state, mario);
+    resolveMarioCollisions(state, mario, objects, prevY);
+    tryEnterPipe(state, mario, objects);
+    grabVine(mario, objects);
+  }
+
+  updateEntities(state, mario, objects);
+  handleInteractions(state, mario, objects);
+  updateCamera(state, mario);
+  updateCheckpoint(state, mario);
+
+  // Fell off the screen
+  if (mario.y > 500) {
+    loseLife(state, mario);
+  }
+
+  updateTimer(state, mario);
+
+  state.mario = mario;
+  state.objects = objects;
+  return state;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, step } from './engine';
+import { startLevel, type LevelEntity, type LevelTile } from './levels';
+import { createEmptyLevel } from './levels/editing';
+import type { GameObject, GameState } from './types';
+
+const run = (state: GameState, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set() });
+  }
+  return state;
+};
+
+// Mario standing at the start of an empty level, with its ground swapped for
+// the given tiles if any, and the given entities and loose objects added
+const levelWith = ({ tiles, entities = [], objects = [] }: { tiles?: Partial<LevelTile>[]; entities?: LevelEntity[]; objects?: GameObject[] }): GameState => {
+  const level = createEmptyLevel();
+  const ground = level.tiles[0];
+  const withMore = { ...level, tiles: tiles ? tiles.map(tile => ({ ...ground, ...tile })) : level.tiles, entities: [...level.entities, ...entities] };
+  const state = startLevel(createInitialState(withMore), withMore, 1);
+  return { ...state, objects: [...state.objects, ...objects] };
+};
+
+// The ground with a platform from x=640 to x=768 above it, its top at y=272
+const WITH_PLATFORM: Partial<LevelTile>[] = [{}, { type: 'brick', x: 640, y: 272, repeatX: 4 }];
+
+const find = (state: GameState, type: GameObject['type']) => state.objects.find(obj => obj.type === type);
+
+const item = (type: GameObject['type'], x: number, y: number): GameObject => ({ x, y, width: 16, height: 16, type, active: true, vx: 0, vy: 0 });
+const fireball = (x: number, y: number, vx: number): GameObject => ({ x, y, width: 8, height: 8, type: 'fireball', active: true, vx, vy: 0, bounce: 3 });
+
+describe('power-ups', () => {
+  it.each(['mushroom', 'fireflower'] as const)('%s lands on whatever is under it', type => {
+    const landed = find(run(levelWith({ tiles: WITH_PLATFORM, objects: [item(type, 700, 200)] }), 60), type);
+    expect(landed.y + landed.height).toBe(272);
+  });
+
+  it('falls down pits', () => {
+    const state = levelWith({ tiles: [{ repeatX: 20 }, { x: 768, repeatX: 30 }], objects: [item('mushroom', 690, 300)] });
+    expect(find(run(state, 60), 'mushroom')).toBeUndefined();
+  });
+});
+
+describe('fireballs', () => {
+  it('bounce off whatever they come down on', () => {
+    let state = levelWith({ tiles: WITH_PLATFORM, objects: [fireball(650, 240, 2)] });
+    for (let i = 0; i < 30 && find(state, 'fireball').vy >= 0; i++) {
+      state = run(state, 1);
+    }
+
+    const bounced = find(state, 'fireball');
+    expect(bounced.vy).toBeLessThan(0);
+    expect(bounced.y + bounced.height).toBe(272);
+  });
+
+  it('burn out against walls', () => {
+    const pipe: Partial<LevelTile> = { type: 'pipe', x: 704, y: 304, width: 64, height: 64, repeatX: 1 };
+    const state = levelWith({ tiles: [{}, pipe], objects: [fireball(650, 320, 8)] });
+    expect(find(run(state, 10), 'fireball')).toBeUndefined();
+  });
+});
+
+describe('elevators', () => {
+  it('carry Mario as they move', () => {
+    const state = levelWith({ entities: [{ type: 'elevator', x: 300, y: 300, width: 64, height: 16, speed: -1, minY: 200, maxY: 300 }] });
+    const onTop = { ...state, mario: { ...state.mario, x: 320, y: 300 - state.mario.height, vy: 0, grounded: true } };
+
+    const up = run(onTop, 60);
+    expect(find(up, 'elevator').y).toBeLessThan(260);
+    expect(up.mario.y + up.mario.height).toBeCloseTo(find(up, 'elevator').y);
+
+    const down = run(up, 150);
+    expect(find(down, 'elevator').y).toBeGreaterThan(find(up, 'elevator').y);
+    expect(down.mario.y + down.mario.height).toBeCloseTo(find(down, 'elevator').y);
+  });
+});
@@ -0,0 +1,123 @@
+import { fireCannon } from './cannons';
+import { checkCollision, solidsNear } from './collision';
+import { GRAVITY } from './constants';
+import { enemiesNear, hitEnemy, isEnemy, touchesEnemy, updateEnemy, updateRespawns } from './enemies';
+import { fall, FALL_LIMIT, oscillate } from './enemies/behavior';
+import { createSpatialHash, type SpatialHash } from './spatial';
+import type { GameObject, GameState } from './types';
+import { growVine } from './vines';
+
+const updateFireball = (state: GameState, obj: GameObject, objects: GameObject[], enemies: SpatialHash) => {
+  const prevFeet = obj.y + obj.height;
+  obj.x += obj.vx || 0;
+  obj.vy = (obj.vy || 0) + GRAVITY * 0.3;
+  obj.y += obj.vy || 0;
+
+  // Bounce off whatever it comes down on, and burn out against walls
+  solidsNear(state, objects, obj).forEach(solid => {
+    if (!obj.active || !checkCollision(obj, solid)) return;
+
+    if (obj.vy >= 0 && prevFeet <= solid.y) {
+      obj.y = solid.y - obj.height;
+      obj.vy = -Math.abs(obj.vy) * 0.7;
+      obj.bounce = (obj.bounce || 0) - 1;
+
+      if (obj.bounce <= 0) {
+        obj.active = false;
+      }
+    } else {
+      obj.active = false;
+    }
+  });
+
+  // Remove if off screen or down a pit
+  if (obj.x < -50 || obj.x > state.area.width || obj.y > FALL_LIMIT) {
+    obj.active = false;
+  }
+
+  // Fireballs burn out on any enemy they hit, whether or not it goes down
+  enemiesNear(enemies, objects, obj).forEach(enemy => {
+    if (obj.active && isEnemy(enemy) && enemy.active && touchesEnemy(enemy, obj)) {
+      obj.active = false;
+      hitEnemy(state, enemy, 'fire');
+    }
+  });
+};
+
+// Are the feet right on top of the platform?
+const standsOn = (obj: GameObject, platform: GameObject) =>
+  Math.abs(obj.y + obj.height - platform.y) < 1 && obj.x < platform.x + platform.width && obj.x + obj.width > platform.x;
+
+// Advance every enemy, platform, item and projectile by one frame
+export const updateEntities = (state: GameState, mario: GameObject, objects: GameObject[]) => {
+  updateRespawns(state, objects);
+  const enemies = createSpatialHash(objects, obj => obj.active && isEnemy(obj));
+
+  objects.forEach(obj => {
+    if (!obj.active) return;
+
+    if (isEnemy(obj)) {
+      updateEnemy(state, obj, objects, enemies, mario);
+      return;
+    }
+
+    switch (obj.type) {
+      case 'elevator':
+        if (obj.moving) {
+          const riding = mario.grounded && standsOn(mario, obj);
+          const prevY = obj.y;
+          oscillate(obj, 200, 320);
+
+          // Move Mario with platform if he's standing on it
+          if (riding) {
+            mario.y += obj.y - prevY;
+          }
+        }
+        break;
+
+      case 'mushroom':
+      case 'oneup':
+      case 'starman':
+        obj.x += obj.vx || 0;
+        fall(state, obj, objects);
+
+        // Bounce off solid objects
+        solidsNear(state, objects, obj).forEach(other => {
+          if (other !== obj && checkCollision(obj, other)) {
+            obj.vx = -(obj.vx || 0);
+          }
+        });
+        break;
+
+      case 'fireflower':
+        fall(state, obj, objects);
+        break;
+
+      case 'fireball':
+        updateFireball(state, obj, objects, enemies);
+        break;
+
+      case 'vine':
+        growVine(obj);
+        break;
+
+      case 'cannon':
+        fireCannon(state, obj, mario, objects);
+        break;
+
+      case 'coin':
+        // Update spawned coins (from blocks) with physics
+        if (obj.vy !== undefined) {
+          obj.vy = (obj.vy || 0) + GRAVITY;
+          obj.y += obj.vy || 0;
+          obj.x += obj.vx || 0;
+
+          // Remove coin after it falls for a while or goes off screen
+          if (obj.y > 450 || (obj.vy && obj.vy > 5)) {
+            obj.active = false;
+          }
+        }
+        break;
+    }
+  });
+};
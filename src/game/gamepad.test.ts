@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { describeGamepadBinding, readGamepadActions } from './gamepad';
+
+// Just enough of a Gamepad for reading it
+const pad = (pressed: number[], axes = [0, 0], connected = true) => ({
+  connected,
+  axes,
+  buttons: Array.from({ length: 16 }, (_, index) => ({ pressed: pressed.includes(index), touched: false, value: 0 }))
+}) as unknown as Gamepad;
+
+describe('readGamepadActions', () => {
+  it('maps the standard layout buttons to actions', () => {
+    expect(readGamepadActions([pad([0, 2, 15])])).toEqual(new Set(['jump', 'run', 'right']));
+  });
+
+  it('ignores small stick movements', () => {
+    expect(readGamepadActions([pad([], [0.2, 0.1])])).toEqual(new Set());
+    expect(readGamepadActions([pad([], [-0.8, 0])])).toEqual(new Set(['left']));
+  });
+
+  it('only crouches on a firm push down', () => {
+    expect(readGamepadActions([pad([], [0.5, 0.4])])).toEqual(new Set(['right']));
+    expect(readGamepadActions([pad([], [0, 0.9])])).toEqual(new Set(['down']));
+  });
+
+  it('combines every connected pad', () => {
+    expect(readGamepadActions([null, pad([0]), pad([1], [0, 0], false), pad([14])])).toEqual(new Set(['jump', 'left']));
+  });
+});
+
+describe('describeGamepadBinding', () => {
+  it('names buttons the way the controller labels them', () => {
+    expect(describeGamepadBinding('jump')).toBe('A');
+    expect(describeGamepadBinding('left')).toBe('D-pad left');
+  });
+});
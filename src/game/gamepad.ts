@@ -0,0 +1,62 @@
+import { ACTIONS, type Action } from './input';
+
+// Buttons in the browser's "standard" gamepad layout (Xbox names)
+const BUTTON_LABELS: Record<number, string> = {
+  0: 'A',
+  1: 'B',
+  2: 'X',
+  3: 'Y',
+  9: 'Start',
+  12: 'D-pad up',
+  13: 'D-pad down',
+  14: 'D-pad left',
+  15: 'D-pad right'
+};
+
+export const GAMEPAD_BINDINGS: Record<Action, number[]> = {
+  left: [14],
+  right: [15],
+  jump: [0],
+  run: [2],
+  fire: [1],
+  down: [13],
+  pause: [9]
+};
+
+// Stick deflection below this counts as centred, so worn sticks don't drift
+export const STICK_DEAD_ZONE = 0.3;
+// Crouching needs a firmer push so running diagonally doesn't trigger it
+const STICK_DOWN_THRESHOLD = 0.6;
+
+// Left stick, with a radial dead zone
+const stickActions = (pad: Gamepad): Action[] => {
+  const [x = 0, y = 0] = pad.axes;
+  if (Math.hypot(x, y) < STICK_DEAD_ZONE) return [];
+
+  const actions: Action[] = [];
+  if (x <= -STICK_DEAD_ZONE) actions.push('left');
+  if (x >= STICK_DEAD_ZONE) actions.push('right');
+  if (y >= STICK_DOWN_THRESHOLD) actions.push('down');
+  return actions;
+};
+
+// Actions held on any connected pad
+export const readGamepadActions = (pads: readonly (Gamepad | null)[]): Set<Action> => {
+  const actions = new Set<Action>();
+
+  pads.forEach(pad => {
+    if (!pad?.connected) return;
+
+    ACTIONS.forEach(action => {
+      if (GAMEPAD_BINDINGS[action].some(index => pad.buttons[index]?.pressed)) {
+        actions.add(action);
+      }
+    });
+    stickActions(pad).forEach(action => actions.add(action));
+  });
+
+  return actions;
+};
+
+export const describeGamepadBinding = (action: Action) =>
+  GAMEPAD_BINDINGS[action].map(index => BUTTON_LABELS[index] ?? `Button ${index}`).join('/');
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { actionForKey, actionsForKeys, bindKey, DEFAULT_BINDINGS, describeBinding, parseBindings, unbindKey } from './input';
+
+describe('key bindings', () => {
+  it('turns held keys into actions', () => {
+    expect(actionsForKeys(new Set(['KeyD', 'Space', 'KeyQ']), DEFAULT_BINDINGS)).toEqual(new Set(['right', 'jump']));
+  });
+
+  it('moves a key to the action it is bound to last', () => {
+    const bindings = bindKey(DEFAULT_BINDINGS, 'fire', 'Space');
+
+    expect(bindings.fire).toEqual(['KeyX', 'Space']);
+    expect(bindings.jump).not.toContain('Space');
+    expect(actionForKey('Space', bindings)).toBe('fire');
+  });
+
+  it('can leave an action unbound', () => {
+    const bindings = unbindKey(DEFAULT_BINDINGS, 'fire', 'KeyX');
+
+    expect(describeBinding(bindings, 'fire')).toBe('unbound');
+    expect(describeBinding(bindings, 'left')).toBe('←/A');
+  });
+
+  it('falls back to the defaults for saved bindings that are missing or broken', () => {
+    expect(parseBindings({ jump: ['KeyK'] })).toEqual({ ...DEFAULT_BINDINGS, jump: ['KeyK'] });
+    expect(parseBindings('not bindings')).toEqual(DEFAULT_BINDINGS);
+  });
+});
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+
+// What the player can do, independent of which key or button does it
+export const ACTIONS = ['left', 'right', 'jump', 'run', 'fire', 'down', 'pause'] as const;
+export type Action = typeof ACTIONS[number];
+
+export const ACTION_LABELS: Record<Action, string> = {
+  left: 'Move left',
+  right: 'Move right',
+  jump: 'Jump',
+  run: 'Run',
+  fire: 'Shoot fireball',
+  down: 'Crouch',
+  pause: 'Pause'
+};
+
+// KeyboardEvent.code values for each action
+export type KeyBindings = Record<Action, string[]>;
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  left: ['ArrowLeft', 'KeyA'],
+  right: ['ArrowRight', 'KeyD'],
+  jump: ['Space', 'ArrowUp', 'KeyW'],
+  run: ['ShiftLeft', 'KeyZ'],
+  fire: ['KeyX'],
+  down: ['ArrowDown', 'KeyS'],
+  pause: ['KeyP', 'Escape']
+};
+
+// Actions whose keys are currently held
+export const actionsForKeys = (keys: ReadonlySet<string>, bindings: KeyBindings) =>
+  new Set(ACTIONS.filter(action => bindings[action].some(code => keys.has(code))));
+
+// Action bound to a key, if any
+export const actionForKey = (code: string, bindings: KeyBindings) =>
+  ACTIONS.find(action => bindings[action].includes(code));
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+  AltLeft: 'Left Alt',
+  AltRight: 'Right Alt',
+  Escape: 'Esc'
+};
+
+// Short, readable name for a KeyboardEvent.code
+export const keyLabel = (code: string) =>
+  KEY_LABELS[code] ?? code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num ');
+
+export const describeBinding = (bindings: KeyBindings, action: Action) =>
+  bindings[action].length ? bindings[action].map(keyLabel).join('/') : 'unbound';
+
+// Bind a key to an action, taking it away from whatever action had it before
+export const bindKey = (bindings: KeyBindings, action: Action, code: string): KeyBindings => {
+  const next = { ...bindings };
+  ACTIONS.forEach(other => {
+    next[other] = other === action
+      ? [...bindings[other].filter(existing => existing !== code), code]
+      : bindings[other].filter(existing => existing !== code);
+  });
+  return next;
+};
+
+export const unbindKey = (bindings: KeyBindings, action: Action, code: string): KeyBindings => ({
+  ...bindings,
+  [action]: bindings[action].filter(existing => existing !== code)
+});
+
+const bindingsSchema = z.record(z.string(), z.array(z.string()));
+
+// Read saved bindings, falling back to the defaults for anything missing or malformed
+export const parseBindings = (data: unknown): KeyBindings => {
+  const result = bindingsSchema.safeParse(data);
+  const saved = result.success ? result.data : {};
+  return Object.fromEntries(ACTIONS.map(action => [action, saved[action] ?? DEFAULT_BINDINGS[action]])) as KeyBindings;
+};
@@ -0,0 +1,140 @@
+import { touchAxe } from './castle';
+import { checkCollision, checkFlagCollision } from './collision';
+import { MARIO_PHYSICS } from './constants';
+import { loseLife } from './death';
+import { ENEMIES, enemyModifiers, hitEnemy, isEnemy, touchesEnemy, type Enemy } from './enemies';
+import { resizeMario } from './physics';
+import type { GameObject, GameState } from './types';
+
+// Mario was hit by an enemy: Fire -> Big -> Small -> dead
+export const hurtMario = (state: GameState, mario: GameObject) => {
+  if (mario.fire) {
+    mario.fire = false;
+    mario.invincible = 120; // 2 seconds of invincibility
+    state.events.push('shrink');
+  } else if (mario.big) {
+    mario.big = false;
+    mario.crouching = false;
+    resizeMario(mario);
+    mario.invincible = 120;
+    state.events.push('shrink');
+  } else {
+    loseLife(state, mario);
+  }
+};
+
+const growMario = (mario: GameObject) => {
+  mario.big = true;
+  resizeMario(mario);
+};
+
+const stompBounce = (mario: GameObject) => {
+  mario.vy = MARIO_PHYSICS.stompBounce;
+};
+
+// Mario ran into an enemy: star power knocks it out, landing on top stomps it,
+// and anything else is up to the enemy, usually hurting Mario
+const touchEnemy = (state: GameState, enemy: Enemy, mario: GameObject) => {
+  const behavior = ENEMIES[enemy.type];
+  const stomp = enemyModifiers(enemy).find(modifier => modifier.stomp)?.stomp ?? behavior.stomp;
+
+  if (mario.invincible > 0) {
+    hitEnemy(state, enemy, 'star');
+  } else if (stomp && mario.vy > 0 && mario.y < enemy.y - 5) {
+    stomp(state, enemy, mario);
+    if (!enemy.active) {
+      behavior.knockedOut?.(state, enemy);
+    }
+    stompBounce(mario);
+    state.score += behavior.score;
+    state.events.push('stomp');
+  } else if (behavior.touch?.(state, enemy, mario) ?? true) {
+    hurtMario(state, mario);
+  }
+};
+
+// Resolve Mario touching enemies, items, hazards, the flag and the axe
+export const handleInteractions = (state: GameState, mario: GameObject, objects: GameObject[]) => {
+  objects.forEach(obj => {
+    if (!obj.active) return;
+
+    if (isEnemy(obj)) {
+      if (touchesEnemy(obj, mario)) {
+        touchEnemy(state, obj, mario);
+      }
+      return;
+    }
+
+    const collision = obj.type === 'flag' ? checkFlagCollision(mario, obj) : checkCollision(mario, obj);
+    if (!collision) return;
+
+    switch (obj.type) {
+      case 'coin':
+        obj.active = false;
+        state.coins++;
+        state.score += 200;
+        state.events.push('coin');
+        if (state.coins >= 100) {
+          state.lives++;
+          state.coins = 0;
+        }
+        break;
+
+      case 'mushroom':
+        obj.active = false;
+        if (!mario.big) {
+          growMario(mario);
+        }
+        state.score += 1000;
+        state.events.push('powerup');
+        break;
+
+      case 'oneup':
+        obj.active = false;
+        state.lives++;
+        state.score += 1000;
+        state.events.push('powerup');
+        break;
+
+      case 'starman':
+        obj.active = false;
+        mario.invincible = 600; // 10 seconds of invincibility
+        state.score += 1000;
+        state.events.push('powerup');
+        break;
+
+      case 'fireflower':
+        obj.active = false;
+        if (mario.big) {
+          mario.fire = true;
+        } else {
+          // If small Mario gets fire flower, he becomes big first
+          growMario(mario);
+        }
+        state.score += 1000;
+        state.events.push('powerup');
+        break;
+
+      case 'flag':
+        // Start flag sliding animation on any collision with expanded flag area
+        if (!state.flagSliding) {
+          state.flagSliding = true;
+          state.flagAnimationProgress = 0;
+          mario.vx = 0;
+          mario.vy = 0;
+          mario.x = obj.x + 16; // Position Mario on flag pole (center)
+          state.events.push('powerup');
+        }
+        break;
+
+      case 'axe':
+        touchAxe(state, mario, obj);
+        break;
+
+      case 'lava':
+        // Not even star power helps
+        loseLife(state, mario);
+        break;
+    }
+  });
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { parseLevel } from '.';
+import { applyTool, compactTiles, createEmptyLevel, expandTiles, exportLevel, tileAt } from './editing';
+
+describe('editing', () => {
+  it('snaps tiles to the grid the ground sits on', () => {
+    const level = applyTool(createEmptyLevel(), 'brick', 75, 250);
+    expect(tileAt(level, 75, 250)).toMatchObject({ type: 'brick', x: 64, y: 240 });
+  });
+
+  it('replaces what was in a cell rather than stacking tiles', () => {
+    let level = applyTool(createEmptyLevel(), 'brick', 64, 240);
+    level = applyTool(level, 'block', 64, 240, 'mushroom');
+
+    expect(level.tiles.filter(tile => tile.x === 64 && tile.y === 240)).toEqual([
+      expect.objectContaining({ type: 'block', contents: 'mushroom' })
+    ]);
+  });
+
+  it('erases entities before the tiles under them', () => {
+    let level = applyTool(createEmptyLevel(), 'goomba', 100, 350);
+    level = applyTool(level, 'erase', 110, 360);
+    expect(level.entities.map(entity => entity.type)).toEqual(['flag']);
+
+    level = applyTool(level, 'erase', 100, 380);
+    expect(tileAt(level, 100, 380)).toBeUndefined();
+  });
+
+  it('keeps a single flag', () => {
+    const level = applyTool(createEmptyLevel(), 'flag', 1000, 350);
+    expect(level.entities.filter(entity => entity.type === 'flag')).toEqual([expect.objectContaining({ x: 992 })]);
+  });
+
+  it('ignores clicks outside the level', () => {
+    const level = createEmptyLevel();
+    expect(applyTool(level, 'brick', -10, 240)).toBe(level);
+  });
+});
+
+describe('exporting', () => {
+  it('merges runs of tiles back together, except blocks with contents', () => {
+    const tiles = [
+      ...expandTiles(createEmptyLevel().tiles),
+      { type: 'block' as const, x: 0, y: 240, width: 32, height: 32, repeatX: 1, repeatY: 1, contents: 'coin' as const },
+      { type: 'block' as const, x: 32, y: 240, width: 32, height: 32, repeatX: 1, repeatY: 1 }
+    ];
+
+    expect(compactTiles(tiles)).toEqual([
+      expect.objectContaining({ type: 'block', x: 0, contents: 'coin' }),
+      expect.objectContaining({ type: 'block', x: 32, repeatX: 1 }),
+      expect.objectContaining({ type: 'ground', x: 0, repeatX: 60 })
+    ]);
+  });
+
+  it('writes levels that load back unchanged', () => {
+    const level = applyTool(applyTool(createEmptyLevel(), 'koopa', 400, 350), 'pipe', 500, 320);
+    expect(parseLevel(JSON.parse(exportLevel(level)))).toEqual({ ...level, tiles: compactTiles(level.tiles) });
+  });
+});
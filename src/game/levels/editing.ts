@@ -0,0 +1,214 @@
+import { TILE_ORIGIN_Y, TILE_SIZE } from '../tilemap';
+import { LEVEL_FORMAT_VERSION, type BlockContents, type LevelDefinition, type LevelEntity, type LevelTile } from './schema';
+
+// The editor grid is the tile grid
+export const GRID_SIZE = TILE_SIZE;
+export const GRID_OFFSET_Y = TILE_ORIGIN_Y + TILE_SIZE;
+
+// Top of the ground row in the built-in levels
+const GROUND_Y = 368;
+
+export type TileTool = LevelTile['type'];
+export type EntityTool = LevelEntity['type'];
+export type EditorTool = TileTool | EntityTool | 'spawn' | 'erase';
+
+export const TILE_TOOLS: TileTool[] = ['ground', 'brick', 'block', 'hidden', 'used', 'bridge', 'pipe', 'cannon', 'lava'];
+export const ENTITY_TOOLS: EntityTool[] = ['elevator', 'goomba', 'koopa', 'piranha', 'hammerbro', 'lakitu', 'firebar', 'podoboo', 'bowser', 'axe', 'coin', 'flag'];
+
+export const createEmptyLevel = (): LevelDefinition => ({
+  version: LEVEL_FORMAT_VERSION,
+  id: 'custom',
+  name: 'Custom Level',
+  theme: 'overworld',
+  music: 'overworld',
+  width: 2000,
+  timeLimit: 400,
+  spawn: { x: 50, y: 300 },
+  checkpoints: [],
+  next: null,
+  tiles: [{ type: 'ground', x: 0, y: GROUND_Y, width: GRID_SIZE, height: GRID_SIZE, repeatX: 60, repeatY: 1 }],
+  entities: [{ type: 'flag', x: 1800, y: 200, height: 168 }],
+  areas: []
+});
+
+export const snapX = (x: number) => Math.floor(x / GRID_SIZE) * GRID_SIZE;
+export const snapY = (y: number) => Math.floor((y - GRID_OFFSET_Y) / GRID_SIZE) * GRID_SIZE + GRID_OFFSET_Y;
+
+const contains = (box: { x: number; y: number; width: number; height: number }, x: number, y: number) =>
+  x >= box.x && x < box.x + box.width && y >= box.y && y < box.y + box.height;
+
+const entityBounds = (entity: LevelEntity) => {
+  switch (entity.type) {
+    case 'goomba':
+    case 'koopa':
+      return { x: entity.x, y: entity.y, width: 20, height: 20 };
+    case 'hammerbro':
+      return { x: entity.x, y: entity.y, width: 20, height: 28 };
+    case 'lakitu':
+      return { x: entity.x, y: entity.y, width: 24, height: 32 };
+    case 'firebar':
+      // Just the block it turns around
+      return { x: entity.x - GRID_SIZE / 2, y: entity.y - GRID_SIZE / 2, width: GRID_SIZE, height: GRID_SIZE };
+    case 'bowser':
+      return { x: entity.x, y: entity.y, width: 48, height: 48 };
+    case 'axe':
+      return { x: entity.x, y: entity.y, width: 24, height: 32 };
+    case 'piranha':
+    case 'podoboo':
+    case 'coin':
+      return { x: entity.x, y: entity.y, width: 16, height: 16 };
+    case 'elevator':
+      return { x: entity.x, y: entity.y, width: entity.width, height: entity.height };
+    case 'flag':
+      return { x: entity.x, y: entity.y, width: 32, height: entity.height };
+  }
+};
+
+// Split repeated tiles into single cells so each one can be edited on its own
+export const expandTiles = (tiles: LevelTile[]): LevelTile[] =>
+  tiles.flatMap(tile =>
+    Array.from({ length: tile.repeatX * tile.repeatY }, (_, i) => ({
+      ...tile,
+      x: tile.x + (i % tile.repeatX) * tile.width,
+      y: tile.y + Math.floor(i / tile.repeatX) * tile.height,
+      repeatX: 1,
+      repeatY: 1
+    }))
+  );
+
+// Merge horizontal runs of identical empty tiles (no contents or warp) back into repeated tiles
+export const compactTiles = (tiles: LevelTile[]): LevelTile[] => {
+  const sorted = [...expandTiles(tiles)].sort((a, b) => a.y - b.y || a.x - b.x);
+  const result: LevelTile[] = [];
+
+  sorted.forEach(tile => {
+    const last = result[result.length - 1];
+    if (
+      last && !last.contents && !tile.contents && !last.warp && !tile.warp && last.range === tile.range &&
+      last.type === tile.type && last.y === tile.y && last.repeatY === 1 &&
+      last.width === tile.width && last.height === tile.height &&
+      last.x + last.width * last.repeatX === tile.x
+    ) {
+      last.repeatX++;
+    } else {
+      result.push({ ...tile });
+    }
+  });
+
+  return result;
+};
+
+export const tileAt = (level: LevelDefinition, x: number, y: number) =>
+  level.tiles.find(tile => contains({ ...tile, width: tile.width * tile.repeatX, height: tile.height * tile.repeatY }, x, y));
+
+// Remove whatever entity or tile covers the point, entities first
+export const eraseAt = (level: LevelDefinition, x: number, y: number): LevelDefinition => {
+  const entity = level.entities.find(candidate => contains(entityBounds(candidate), x, y));
+  if (entity) {
+    return { ...level, entities: level.entities.filter(candidate => candidate !== entity) };
+  }
+
+  const tile = tileAt(level, x, y);
+  if (tile) {
+    return { ...level, tiles: level.tiles.filter(candidate => candidate !== tile) };
+  }
+
+  return level;
+};
+
+// Paint a tile into the grid cell under the point, replacing what was there
+export const placeTile = (level: LevelDefinition, type: TileTool, x: number, y: number, contents?: BlockContents): LevelDefinition => {
+  const cellX = snapX(x);
+  const cellY = snapY(y);
+  const existing = tileAt(level, x, y);
+
+  // Re-painting a block only changes what it holds
+  if (existing && existing.type === type && existing.x === cellX && existing.y === cellY) {
+    if (existing.contents === contents) return level;
+    return { ...level, tiles: level.tiles.map(tile => tile === existing ? { ...tile, contents } : tile) };
+  }
+
+  const tile: LevelTile = type === 'pipe'
+    ? { type, x: cellX, y: cellY, width: GRID_SIZE * 2, height: Math.max(GRID_SIZE * 2, GROUND_Y - cellY), repeatX: 1, repeatY: 1 }
+    : type === 'cannon'
+      ? { type, x: cellX, y: cellY, width: GRID_SIZE, height: Math.max(GRID_SIZE, GROUND_Y - cellY), repeatX: 1, repeatY: 1 }
+      : { type, x: cellX, y: cellY, width: GRID_SIZE, height: GRID_SIZE, repeatX: 1, repeatY: 1 };
+
+  if ((type === 'block' || type === 'brick' || type === 'hidden') && contents) {
+    tile.contents = contents;
+  }
+
+  const cleared = existing ? eraseAt({ ...level, entities: [] }, x, y).tiles : level.tiles;
+  return { ...level, tiles: [...cleared, tile] };
+};
+
+// Place an entity standing on the bottom of the grid cell under the point
+export const placeEntity = (level: LevelDefinition, type: EntityTool, x: number, y: number): LevelDefinition => {
+  const cellX = snapX(x);
+  const cellY = snapY(y);
+  let entity: LevelEntity;
+
+  switch (type) {
+    case 'goomba':
+    case 'koopa':
+      entity = { type, x: cellX + 6, y: cellY + GRID_SIZE - 20, direction: -1 };
+      break;
+    case 'hammerbro':
+      entity = { type, x: cellX + 6, y: cellY + GRID_SIZE - 28, range: 32 };
+      break;
+    case 'lakitu':
+      entity = { type, x: cellX + 4, y: cellY };
+      break;
+    case 'firebar':
+      // Turns around the middle of the cell, usually a used block
+      entity = { type, x: cellX + GRID_SIZE / 2, y: cellY + GRID_SIZE / 2, length: 6, speed: 0.05 };
+      break;
+    case 'podoboo':
+      // Leaps out of lava in this cell from just below the screen
+      entity = { type, x: cellX + 8, y: GROUND_Y + GRID_SIZE, height: GROUND_Y + GRID_SIZE - cellY };
+      break;
+    case 'bowser':
+      entity = { type, x: cellX, y: cellY + GRID_SIZE - 48, range: 64 };
+      break;
+    case 'axe':
+      entity = { type, x: cellX + 4, y: cellY };
+      break;
+    case 'piranha':
+      // Hides into a pipe whose top is the bottom of this cell
+      entity = { type, x: cellX, y: cellY + 8, minY: cellY - 8, maxY: cellY + GRID_SIZE };
+      break;
+    case 'elevator':
+      entity = { type, x: cellX, y: cellY, width: GRID_SIZE * 2, height: 16, speed: -1, minY: cellY - GRID_SIZE * 3, maxY: cellY };
+      break;
+    case 'coin':
+      entity = { type, x: cellX + 8, y: cellY + 8 };
+      break;
+    case 'flag':
+      // A level has a single flag
+      return {
+        ...level,
+        entities: [...level.entities.filter(other => other.type !== 'flag'), { type, x: cellX, y: cellY + GRID_SIZE - 168, height: 168 }]
+      };
+  }
+
+  return { ...level, entities: [...level.entities, entity] };
+};
+
+export const placeSpawn = (level: LevelDefinition, x: number, y: number): LevelDefinition => ({
+  ...level,
+  spawn: { x: snapX(x) + 6, y: snapY(y) + GRID_SIZE - 20 }
+});
+
+// Apply an editor tool at a point in level coordinates
+export const applyTool = (level: LevelDefinition, tool: EditorTool, x: number, y: number, contents?: BlockContents): LevelDefinition => {
+  if (x < 0 || x >= level.width || y < 0) return level;
+
+  if (tool === 'erase') return eraseAt(level, x, y);
+  if (tool === 'spawn') return placeSpawn(level, x, y);
+  if ((TILE_TOOLS as EditorTool[]).includes(tool)) return placeTile(level, tool as TileTool, x, y, contents);
+  return placeEntity(level, tool as EntityTool, x, y);
+};
+
+// Pretty-printed JSON with runs of tiles merged back together
+export const exportLevel = (level: LevelDefinition) =>
+  JSON.stringify({ ...level, tiles: compactTiles(level.tiles) }, null, 2);
@@ -0,0 +1,60 @@
+import world11 from './data/1-1.json';
+import world12 from './data/1-2.json';
+import world13 from './data/1-3.json';
+import world14 from './data/1-4.json';
+import world21 from './data/2-1.json';
+import world31 from './data/3-1.json';
+import world41 from './data/4-1.json';
+import { findArea } from './loader';
+import { parseLevel, type LevelDefinition } from './schema';
+
+export * from './schema';
+export { advanceToLevel, buildLevelObjects, buildTileMap, createMario, enterArea, findArea, restartLevel, startLevel } from './loader';
+
+// Built-in levels, in the order they are offered on the title screen
+export const LEVELS: LevelDefinition[] = [world11, world12, world13, world14, world21, world31, world41].map(parseLevel);
+
+export const findLevel = (id: string): LevelDefinition | undefined =>
+  LEVELS.find(candidate => candidate.id === id);
+
+export const getLevel = (id: string): LevelDefinition => {
+  const level = findLevel(id);
+  if (!level) {
+    throw new Error(`Unknown level "${id}"`);
+  }
+  return level;
+};
+
+// The level to go on to after this one, if there is one. A `next` naming a
+// level that doesn't exist ends the run, like finishing the last level does.
+export const nextLevel = (level: LevelDefinition) => (level.next ? findLevel(level.next) : undefined);
+
+// Problems with where a level leads: a `next` level, or the level or area a
+// pipe goes to, that doesn't exist. Pipes that name the level they're in lead
+// to one of its own areas, like ones that leave the level out.
+export const levelLinkErrors = (level: LevelDefinition): string[] => {
+  const errors = level.next && !findLevel(level.next) ? [`next: Unknown level "${level.next}"`] : [];
+
+  [level, ...level.areas].forEach(area => {
+    area.tiles.forEach(({ warp }) => {
+      if (!warp) return;
+
+      const destination = !warp.level || warp.level === level.id ? level : findLevel(warp.level);
+      if (!destination) {
+        errors.push(`Pipe to unknown level "${warp.level}"`);
+      } else if (!findArea(destination, warp.area)) {
+        errors.push(`Pipe to missing area "${warp.area}" of "${destination.id}"`);
+      }
+    });
+  });
+  return errors;
+};
+
+// Catch built-in levels that lead nowhere when the game loads, rather than
+// when Mario gets there
+LEVELS.forEach(level => {
+  const errors = levelLinkErrors(level);
+  if (errors.length) {
+    throw new Error(`Level "${level.id}" leads nowhere:\n${errors.join('\n')}`);
+  }
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { isSolid } from '../collision';
+import { MARIO_BIG_HEIGHT, MARIO_SMALL_HEIGHT } from '../constants';
+import { colAt, getTile, rowAt, solidTilesIn, TILE, TILE_ORIGIN_Y, TILE_ROWS, TILE_SIZE, tileBounds } from '../tilemap';
+import { buildLevelObjects, buildTileMap, findArea, getLevel, levelLinkErrors, LEVELS, MAIN_AREA, nextLevel, parseLevel, validateLevel } from '.';
+import { createEmptyLevel } from './editing';
+
+const withTile = (tile: object) => ({ ...createEmptyLevel(), tiles: [...createEmptyLevel().tiles, tile] });
+const withEntity = (entity: object) => ({ ...createEmptyLevel(), entities: [...createEmptyLevel().entities, entity] });
+
+describe('built-in levels', () => {
+  it.each(LEVELS.map(level => [level.id, level]))('%s is valid and leads somewhere', (id, level) => {
+    expect(validateLevel(level)).toEqual([]);
+    expect(levelLinkErrors(level)).toEqual([]);
+  });
+
+  it('chain from 1-1 through every level', () => {
+    const visited: string[] = [];
+    for (let level = getLevel('1-1'); level; level = nextLevel(level)) {
+      visited.push(level.id);
+    }
+    expect(visited).toEqual(LEVELS.map(level => level.id));
+  });
+
+  // Every area of every level, with its solid ground, blocks, pipes and cannons.
+  // Elevators move, so they never leave a gap for long and are left out.
+  const areas = LEVELS.flatMap(level => [level, ...level.areas].map(area => {
+    const tiles = buildTileMap(area);
+    const objects = buildLevelObjects(area).filter(obj => isSolid(obj) && obj.type !== 'flag' && obj.type !== 'elevator');
+    return [`${level.id} ${area === level ? MAIN_AREA : area.id}`, { width: area.width, tiles, objects }] as const;
+  }));
+
+  // Solid spans down a column of pixels at x, from the top, with touching ones merged
+  const spansAt = ({ tiles, objects }: (typeof areas)[number][1], x: number) => {
+    const spans = [
+      ...solidTilesIn(tiles, { x, y: TILE_ORIGIN_Y, width: 1, height: TILE_ROWS * TILE_SIZE }).map(({ col, row }) => tileBounds(col, row)),
+      ...objects.filter(obj => obj.x <= x && x < obj.x + obj.width)
+    ].map(box => ({ top: box.y, bottom: box.y + box.height })).sort((a, b) => a.top - b.top);
+
+    return spans.reduce<{ top: number; bottom: number }[]>((merged, span) => {
+      const last = merged[merged.length - 1];
+      if (last && span.top <= last.bottom) {
+        last.bottom = Math.max(last.bottom, span.bottom);
+      } else {
+        merged.push({ ...span });
+      }
+      return merged;
+    }, []);
+  };
+
+  it.each(areas)('%s leaves room to crouch through every gap too low to stand in', (id, area) => {
+    for (let x = 0; x < area.width; x += 4) {
+      const spans = spansAt(area, x);
+      spans.slice(1).forEach((span, i) => {
+        const gap = span.top - spans[i].bottom;
+        if (gap < MARIO_BIG_HEIGHT) {
+          expect(gap, `gap at x=${x}, y=${spans[i].bottom}`).toBeGreaterThanOrEqual(MARIO_SMALL_HEIGHT);
+        }
+      });
+    }
+  });
+
+  it('throws for a level that does not exist', () => {
+    expect(() => getLevel('9-9')).toThrow('Unknown level "9-9"');
+  });
+});
+
+describe('validation', () => {
+  it('fills in defaults', () => {
+    const level = parseLevel(withTile({ type: 'brick', x: 64, y: 240 }));
+
+    expect(level.next).toBeNull();
+    expect(level.tiles[1]).toMatchObject({ width: 32, height: 32, repeatX: 1, repeatY: 1 });
+  });
+
+  it('reports every problem with where it is', () => {
+    const errors = validateLevel({ ...withTile({ type: 'ground', x: 0, y: 336, contents: 'coin' }), width: -1 });
+
+    expect(errors).toContain('width: Number must be greater than 0');
+    expect(errors).toContain('tiles.1.contents: Only blocks, bricks and hidden blocks can have contents');
+  });
+
+  it('checks ranges that only make sense one way round', () => {
+    expect(validateLevel(withEntity({ type: 'piranha', x: 100, y: 280, minY: 304, maxY: 264 })))
+      .toEqual(['entities.1.minY: minY must not be greater than maxY']);
+  });
+
+  it('keeps checkpoints inside the level, left to right', () => {
+    const level = { ...createEmptyLevel(), checkpoints: [{ x: 600, y: 300 }, { x: 400, y: 300 }, { x: 5000, y: 300 }] };
+
+    expect(validateLevel(level)).toEqual([
+      'checkpoints.1.x: Checkpoints must be listed from left to right',
+      'checkpoints.2.x: Checkpoint is outside the level'
+    ]);
+  });
+
+  it('only gives cannons a range', () => {
+    expect(validateLevel(withTile({ type: 'pipe', x: 64, y: 304, width: 64, height: 64, range: 200 }))).toEqual(['tiles.1.range: Only cannons have a range']);
+    expect(validateLevel(withTile({ type: 'cannon', x: 64, y: 304, height: 64, range: 200 }))).toEqual([]);
+  });
+
+  it('only lets Koopas fly', () => {
+    expect(validateLevel(withEntity({ type: 'koopa', x: 300, y: 200, wings: 'vertical' }))).toEqual([]);
+    expect(validateLevel(withEntity({ type: 'goomba', x: 300, y: 200, wings: 'vertical' }))).toEqual(['entities.1.wings: Invalid literal value, expected "hop"']);
+  });
+
+  it('catches pipes to areas the level does not have', () => {
+    const pipe = { type: 'pipe', x: 256, y: 304, width: 64, height: 64, warp: { area: 'attic', x: 0, y: 0 } };
+    expect(validateLevel(withTile(pipe))).toEqual(['tiles.1.warp.area: No area "attic" in this level']);
+  });
+
+  it('catches pipes and next levels that lead nowhere', () => {
+    const level = parseLevel({
+      ...withTile({ type: 'pipe', x: 256, y: 304, width: 64, height: 64, warp: { level: '1-1', area: 'attic', x: 0, y: 0 } }),
+      next: '9-9'
+    });
+
+    expect(levelLinkErrors(level)).toEqual(['next: Unknown level "9-9"', 'Pipe to missing area "attic" of "1-1"']);
+  });
+
+  it('catches pipes naming their own level that lead to an area it does not have', () => {
+    const level = parseLevel(withTile({ type: 'pipe', x: 256, y: 304, width: 64, height: 64, warp: { level: 'custom', area: 'attic', x: 0, y: 0 } }));
+
+    expect(levelLinkErrors(level)).toEqual(['Pipe to missing area "attic" of "custom"']);
+  });
+
+  it('throws on levels that are not valid', () => {
+    expect(() => parseLevel({ ...createEmptyLevel(), version: 99 })).toThrow(/Invalid level/);
+  });
+});
+
+describe('loading', () => {
+  it('puts ground and bricks in the tile grid', () => {
+    const tiles = buildTileMap(parseLevel(withTile({ type: 'brick', x: 64, y: 240 })));
+
+    expect(getTile(tiles, colAt(64), rowAt(240))).toBe(TILE.BRICK);
+    expect(getTile(tiles, colAt(64), rowAt(368))).toBe(TILE.GROUND);
+    expect(getTile(tiles, colAt(64), rowAt(208))).toBe(TILE.EMPTY);
+  });
+
+  it('treats the level\'s own tiles and entities as its main area', () => {
+    const level = getLevel('1-1');
+
+    expect(findArea(level, MAIN_AREA)).toMatchObject({ theme: level.theme, width: level.width, tiles: level.tiles });
+    expect(findArea(level, 'bonus')).toMatchObject({ theme: 'underground' });
+    expect(findArea(level, 'attic')).toBeUndefined();
+  });
+
+  it('turns entities into objects', () => {
+    const objects = buildLevelObjects(parseLevel(withEntity({ type: 'goomba', x: 300, y: 336, direction: 1 })));
+    expect(objects.find(obj => obj.type === 'goomba')).toMatchObject({ x: 300, y: 336, vx: 1, active: true });
+  });
+});
@@ -0,0 +1,202 @@
+import { isSolid } from '../collision';
+import { BOWSER_SPEED, CANVAS_WIDTH, FIREBAR_SEGMENT_SIZE, GOOMBA_SPEED, HAMMER_BRO_SPEED, MARIO_SMALL_HEIGHT } from '../constants';
+import { createSpatialHash } from '../spatial';
+import { colAt, createTileMap, isTileType, rowAt, TILE_IDS, TILE_SIZE, tileIndex, type TileMap } from '../tilemap';
+import type { GameObject, GameState, Respawn } from '../types';
+import { MAIN_AREA, type BlockContents, type LevelArea, type LevelDefinition, type LevelEntity, type LevelTile, type Warp } from './schema';
+
+export const createMario = (spawn = { x: 50, y: 300 }): GameObject => ({
+  x: spawn.x,
+  y: spawn.y,
+  width: 20,
+  height: MARIO_SMALL_HEIGHT,
+  type: 'mario',
+  active: true,
+  vx: 0,
+  vy: 0,
+  direction: 1,
+  grounded: false,
+  big: false,
+  fire: false,
+  invincible: 0
+});
+
+// Expand a (possibly repeated) pipe, cannon or pool of lava into objects. Warp pipes are never repeated.
+const createTileObjects = (tile: LevelTile): GameObject[] => {
+  const objects: GameObject[] = [];
+  for (let row = 0; row < tile.repeatY; row++) {
+    for (let col = 0; col < tile.repeatX; col++) {
+      objects.push({
+        x: tile.x + col * tile.width,
+        y: tile.y + row * tile.height,
+        width: tile.width,
+        height: tile.height,
+        type: tile.type,
+        active: true,
+        solid: tile.type !== 'lava',
+        ...(tile.warp && { warp: tile.warp }),
+        ...(tile.range && { range: tile.range })
+      });
+    }
+  }
+  return objects;
+};
+
+// How far a flying paratroopa patrols either side of where it starts, unless the level says
+const FLIGHT_RANGE = 64;
+
+const createEntityObject = (entity: LevelEntity): GameObject => {
+  switch (entity.type) {
+    case 'goomba':
+      return {
+        x: entity.x, y: entity.y, width: 20, height: 20, type: 'goomba', active: true, vx: entity.direction * GOOMBA_SPEED, direction: entity.direction,
+        ...(entity.wings && { modifiers: { winged: entity.wings } })
+      };
+    case 'koopa': {
+      const range = entity.range ?? FLIGHT_RANGE;
+      return {
+        x: entity.x, y: entity.y, width: 20, height: 20, type: 'koopa', active: true, vx: entity.direction, direction: entity.direction, shell: false,
+        ...(entity.wings && {
+          modifiers: { winged: entity.wings },
+          vy: entity.wings === 'vertical' ? -1 : 0,
+          minX: entity.x - range,
+          maxX: entity.x + range,
+          minY: entity.y - range,
+          maxY: entity.y + range
+        })
+      };
+    }
+    case 'piranha':
+      return { x: entity.x, y: entity.y, width: 16, height: 16, type: 'piranha', active: true, vx: 0, vy: -1, minY: entity.minY, maxY: entity.maxY };
+    case 'hammerbro':
+      return { x: entity.x, y: entity.y, width: 20, height: 28, type: 'hammerbro', active: true, vx: -HAMMER_BRO_SPEED, vy: 0, direction: -1, minX: entity.x - entity.range, maxX: entity.x + entity.range, timer: 0 };
+    case 'lakitu':
+      return { x: entity.x, y: entity.y, width: 24, height: 32, type: 'lakitu', active: true, vx: 0, direction: -1, timer: 0, moving: false };
+    case 'firebar': {
+      // Bounds cover the circle it sweeps, centred on (x, y)
+      const radius = entity.length * FIREBAR_SEGMENT_SIZE;
+      return { x: entity.x - radius, y: entity.y - radius, width: radius * 2, height: radius * 2, type: 'firebar', active: true, angle: 0, spin: entity.speed };
+    }
+    case 'podoboo':
+      return { x: entity.x, y: entity.y, width: 16, height: 16, type: 'podoboo', active: true, vy: 0, minY: entity.y - entity.height, maxY: entity.y, timer: 0 };
+    case 'bowser':
+      return { x: entity.x, y: entity.y, width: 48, height: 48, type: 'bowser', active: true, vx: -BOWSER_SPEED, vy: 0, direction: -1, minX: entity.x - entity.range, maxX: entity.x + entity.range, timer: 0 };
+    case 'axe':
+      return { x: entity.x, y: entity.y, width: 24, height: 32, type: 'axe', active: true };
+    case 'elevator':
+      return { x: entity.x, y: entity.y, width: entity.width, height: entity.height, type: 'elevator', active: true, solid: true, vy: entity.speed, minY: entity.minY, maxY: entity.maxY, moving: true };
+    case 'coin':
+      return { x: entity.x, y: entity.y, width: 16, height: 16, type: 'coin', active: true };
+    case 'flag':
+      return { x: entity.x, y: entity.y, width: 32, height: entity.height, type: 'flag', active: true, solid: true };
+  }
+};
+
+// Everything that isn't part of the tile grid
+export const buildLevelObjects = (area: LevelArea): GameObject[] => [
+  ...area.tiles.filter(tile => !isTileType(tile.type)).flatMap(createTileObjects),
+  ...area.entities.map(createEntityObject)
+];
+
+// Ground, bricks and blocks. Tiles are validated to sit on the grid, see schema.ts.
+export const buildTileMap = (area: LevelArea): TileMap => {
+  const map = createTileMap(Math.ceil(area.width / TILE_SIZE));
+  const contents = new Map<number, BlockContents>();
+  const warps = new Map<number, Warp>();
+
+  area.tiles.forEach(tile => {
+    if (!isTileType(tile.type)) return;
+
+    for (let row = 0; row < tile.repeatY; row++) {
+      for (let col = 0; col < tile.repeatX; col++) {
+        const index = tileIndex(map, colAt(tile.x) + col, rowAt(tile.y) + row);
+        map.cells[index] = TILE_IDS[tile.type];
+        if (tile.contents) {
+          contents.set(index, tile.contents);
+        }
+        if (tile.warp) {
+          warps.set(index, tile.warp);
+        }
+      }
+    }
+  });
+
+  return { ...map, contents, warps };
+};
+
+export const findArea = (level: LevelDefinition, id: string): LevelArea | undefined =>
+  id === MAIN_AREA
+    ? { id, theme: level.theme, music: level.music, width: level.width, tiles: level.tiles, entities: level.entities }
+    : level.areas.find(area => area.id === id);
+
+const loadArea = (area: LevelArea, objects: GameObject[], tiles: TileMap, respawns: Respawn[] = []) => ({
+  area,
+  objects,
+  tiles,
+  solids: createSpatialHash(objects, isSolid),
+  bumps: [],
+  respawns
+});
+
+// Move to another area of the current level. Areas Mario has already been in
+// are as he left them, enemies waiting to come back included. Mario, the score
+// and the clock carry over.
+export const enterArea = (state: GameState, area: LevelArea): GameState => {
+  const saved = state.savedAreas[area.id];
+  return {
+    ...state,
+    ...(saved ? loadArea(area, saved.objects, saved.tiles, saved.respawns) : loadArea(area, buildLevelObjects(area), buildTileMap(area))),
+    savedAreas: { ...state.savedAreas, [state.area.id]: { objects: state.objects, tiles: state.tiles, respawns: state.respawns } }
+  };
+};
+
+// Place Mario at the start of a level, keeping his power-ups, score and lives
+export const advanceToLevel = (state: GameState, level: LevelDefinition): GameState => ({
+  ...state,
+  ...loadArea(findArea(level, MAIN_AREA), buildLevelObjects(level), buildTileMap(level)),
+  level,
+  savedAreas: {},
+  mario: {
+    ...state.mario,
+    x: level.spawn.x,
+    y: level.spawn.y,
+    vx: 0,
+    vy: 0,
+    grounded: false
+  },
+  camera: { x: 0, y: 0 },
+  gameRunning: true,
+  time: level.timeLimit,
+  checkpoint: null,
+  flagSliding: false,
+  flagAnimationProgress: 0,
+  pipeTransition: null,
+  castleClear: null,
+  death: null
+});
+
+// After losing a life: the level starts over as it was first loaded, with a
+// small Mario at the last checkpoint he passed and the full time on the clock
+export const restartLevel = (state: GameState): GameState => {
+  const start = state.checkpoint === null ? state.level.spawn : state.level.checkpoints[state.checkpoint];
+  const restarted = advanceToLevel(state, state.level);
+  return {
+    ...restarted,
+    mario: { ...createMario(start), invincible: 180 }, // 3 seconds of invincibility after respawn
+    camera: { x: Math.max(0, Math.min(start.x - CANVAS_WIDTH / 2, restarted.area.width - CANVAS_WIDTH)), y: 0 },
+    checkpoint: state.checkpoint
+  };
+};
+
+// Start a fresh run on the given level. The seed drives every random choice in the run.
+export const startLevel = (state: GameState, level: LevelDefinition, seed: number): GameState => ({
+  ...advanceToLevel(state, level),
+  mario: createMario(level.spawn),
+  score: 0,
+  coins: 0,
+  gameWon: false,
+  gameOver: false,
+  actions: new Set(),
+  pressed: new Set(),
+  rngState: seed >>> 0
+});
@@ -0,0 +1,277 @@
+import { z } from 'zod';
+import { isTileType, TILE_ORIGIN_Y, TILE_ROWS, TILE_SIZE } from '../tilemap';
+
+// Bump when the level file format changes in a way old files can't be read
+export const LEVEL_FORMAT_VERSION = 1;
+
+// The level's own tiles and entities form its main area; `areas` lists any others
+export const MAIN_AREA = 'main';
+
+export const blockContentsSchema = z.enum([
+  'coin',
+  'multi-coin', // A coin per hit until a few seconds after the first
+  'mushroom',
+  'mushroom-or-flower', // Mushroom for small Mario, fire flower otherwise
+  'oneup',
+  'starman',
+  'vine', // Grows up past the top of the screen, and can lead somewhere with a `warp`
+  'random' // Usually a coin, sometimes a mushroom or 1-up
+]);
+
+// Where a pipe or a vine takes Mario
+export const warpSchema = z.object({
+  // Area Mario comes out in, of this level unless another `level` is given
+  area: z.string().min(1).default(MAIN_AREA),
+  level: z.string().min(1).optional(),
+  // Where he comes out: his left edge and the height of his feet
+  x: z.number(),
+  y: z.number(),
+  // Which way Mario moves to go into a pipe: down through the top, or sideways into the end
+  enter: z.enum(['down', 'left', 'right']).default('down'),
+  // Rise out of a pipe at the destination, or just appear there
+  exit: z.enum(['up', 'none']).default('up'),
+  // Drawn above the pipe, like the warp zone's world numbers
+  label: z.string().optional()
+});
+
+// How a winged enemy gets about until it's stomped: hopping along, or flying
+// back and forth up and down or side to side
+export const wingsSchema = z.enum(['hop', 'vertical', 'horizontal']);
+
+const tileSchema = z.object({
+  // Hidden blocks only show up when hit from below; used blocks are already emptied.
+  // Lava can't be stood on and burns Mario up.
+  type: z.enum(['ground', 'brick', 'block', 'hidden', 'used', 'bridge', 'pipe', 'cannon', 'lava']),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive().default(32),
+  height: z.number().positive().default(32),
+  // Repeat the tile to the right / downwards to build runs of ground, walls and platforms
+  repeatX: z.number().int().positive().default(1),
+  repeatY: z.number().int().positive().default(1),
+  contents: blockContentsSchema.optional(),
+  warp: warpSchema.optional(),
+  // Cannons only fire while Mario is at most this far away
+  range: z.number().positive().optional()
+});
+
+const directionSchema = z.union([z.literal(-1), z.literal(1)]).default(-1);
+
+const entitySchema = z.discriminatedUnion('type', [
+  // Paragoombas only hop
+  z.object({ type: z.literal('goomba'), x: z.number(), y: z.number(), direction: directionSchema, wings: z.literal('hop').optional() }),
+  // Flying paratroopas patrol up to `range` pixels either side of where they start
+  z.object({
+    type: z.literal('koopa'),
+    x: z.number(),
+    y: z.number(),
+    direction: directionSchema,
+    wings: wingsSchema.optional(),
+    range: z.number().positive().optional()
+  }),
+  z.object({ type: z.literal('piranha'), x: z.number(), y: z.number(), minY: z.number(), maxY: z.number() }),
+  // Paces up to `range` pixels either side of where it starts
+  z.object({ type: z.literal('hammerbro'), x: z.number(), y: z.number(), range: z.number().nonnegative().default(32) }),
+  // Starts following the camera once it scrolls into view
+  z.object({ type: z.literal('lakitu'), x: z.number(), y: z.number() }),
+  // Turns around (x, y), `length` fireballs long. `speed` is in radians per frame, negative turns anticlockwise.
+  z.object({ type: z.literal('firebar'), x: z.number(), y: z.number(), length: z.number().int().positive().default(6), speed: z.number().default(0.05) }),
+  // Waits at y, below the lava, and leaps `height` pixels out of it every so often
+  z.object({ type: z.literal('podoboo'), x: z.number(), y: z.number(), height: z.number().positive().default(192) }),
+  // Paces up to `range` pixels either side of where it starts
+  z.object({ type: z.literal('bowser'), x: z.number(), y: z.number(), range: z.number().nonnegative().default(64) }),
+  // Touching it drops the bridge, and Bowser with it, and clears the castle
+  z.object({ type: z.literal('axe'), x: z.number(), y: z.number() }),
+  z.object({
+    type: z.literal('elevator'),
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive().default(64),
+    height: z.number().positive().default(16),
+    speed: z.number(), // Initial vertical speed, negative moves up
+    minY: z.number(),
+    maxY: z.number()
+  }),
+  z.object({ type: z.literal('coin'), x: z.number(), y: z.number() }),
+  z.object({ type: z.literal('flag'), x: z.number(), y: z.number(), height: z.number().positive().default(168) })
+]);
+
+export const levelThemeSchema = z.enum(['overworld', 'underground', 'treetop', 'sky', 'castle']);
+
+// A bonus room, warp zone or other part of a level with its own bounds, look and music
+const areaSchema = z.object({
+  id: z.string().min(1),
+  theme: levelThemeSchema,
+  music: levelThemeSchema,
+  width: z.number().positive(),
+  tiles: z.array(tileSchema),
+  entities: z.array(entitySchema)
+});
+
+type AreaInput = z.infer<typeof areaSchema>;
+
+// Checks shared by the main area and the others. `path` leads to the area in the level file.
+const checkArea = (area: AreaInput, areaIds: string[], path: (string | number)[], ctx: z.RefinementCtx) => {
+  const mapWidth = Math.ceil(area.width / TILE_SIZE) * TILE_SIZE;
+  const mapBottom = TILE_ORIGIN_Y + TILE_ROWS * TILE_SIZE;
+
+  area.tiles.forEach((tile, index) => {
+    if (tile.contents && tile.type !== 'block' && tile.type !== 'brick' && tile.type !== 'hidden') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'tiles', index, 'contents'], message: 'Only blocks, bricks and hidden blocks can have contents' });
+    }
+
+    if (tile.warp && ((tile.type !== 'pipe' && tile.contents !== 'vine') || tile.repeatX > 1 || tile.repeatY > 1)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'tiles', index, 'warp'], message: 'Only single pipes and blocks holding a vine can warp' });
+    } else if (tile.warp && !tile.warp.level && !areaIds.includes(tile.warp.area)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'tiles', index, 'warp', 'area'], message: `No area "${tile.warp.area}" in this level` });
+    }
+
+    if (tile.range !== undefined && tile.type !== 'cannon') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'tiles', index, 'range'], message: 'Only cannons have a range' });
+    }
+
+    // Ground, bricks, blocks and bridges live in the tile grid; pipes, cannons and lava can go anywhere
+    if (!isTileType(tile.type)) return;
+
+    if (tile.width !== TILE_SIZE || tile.height !== TILE_SIZE) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'tiles', index], message: `${tile.type} tiles must be ${TILE_SIZE}x${TILE_SIZE}` });
+    } else if (tile.x % TILE_SIZE !== 0 || (tile.y - TILE_ORIGIN_Y) % TILE_SIZE !== 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'tiles', index], message: `${tile.type} tile is not on the ${TILE_SIZE}px grid (rows start at y=${TILE_ORIGIN_Y})` });
+    } else if (
+      tile.x < 0 || tile.x + tile.width * tile.repeatX > mapWidth ||
+      tile.y < TILE_ORIGIN_Y || tile.y + tile.height * tile.repeatY > mapBottom
+    ) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'tiles', index], message: 'Tile is outside the level' });
+    }
+  });
+
+  area.entities.forEach((entity, index) => {
+    if ((entity.type === 'piranha' || entity.type === 'elevator') && entity.minY > entity.maxY) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'entities', index, 'minY'], message: 'minY must not be greater than maxY' });
+    }
+  });
+};
+
+export const levelSchema = z.object({
+  version: z.literal(LEVEL_FORMAT_VERSION),
+  id: z.string().min(1),
+  name: z.string().min(1),
+  theme: levelThemeSchema,
+  music: levelThemeSchema,
+  width: z.number().positive(),
+  timeLimit: z.number().positive(),
+  spawn: z.object({ x: z.number(), y: z.number() }),
+  // Once Mario walks past one, losing a life restarts the level with him there
+  checkpoints: z.array(z.object({ x: z.number(), y: z.number() })).default([]),
+  // Level loaded after the flag; the run is won when there is none
+  next: z.string().nullable().default(null),
+  tiles: z.array(tileSchema),
+  entities: z.array(entitySchema),
+  areas: z.array(areaSchema).default([])
+}).superRefine((level, ctx) => {
+  if (level.spawn.x < 0 || level.spawn.x >= level.width) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['spawn', 'x'], message: 'Spawn point is outside the level' });
+  }
+
+  level.checkpoints.forEach((checkpoint, index) => {
+    if (checkpoint.x < 0 || checkpoint.x >= level.width) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['checkpoints', index, 'x'], message: 'Checkpoint is outside the level' });
+    } else if (index > 0 && checkpoint.x <= level.checkpoints[index - 1].x) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['checkpoints', index, 'x'], message: 'Checkpoints must be listed from left to right' });
+    }
+  });
+
+  const areaIds = [MAIN_AREA, ...level.areas.map(area => area.id)];
+  checkArea({ ...level, id: MAIN_AREA }, areaIds, [], ctx);
+  level.areas.forEach((area, index) => {
+    if (areaIds.indexOf(area.id) !== index + 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['areas', index, 'id'], message: `Area id "${area.id}" is already taken` });
+    }
+    checkArea(area, areaIds, ['areas', index], ctx);
+  });
+});
+
+export type BlockContents = z.infer<typeof blockContentsSchema>;
+export type LevelTheme = z.infer<typeof levelThemeSchema>;
+export type Wings = z.infer<typeof wingsSchema>;
+
+export interface Warp {
+  area: string;
+  level?: string;
+  x: number;
+  y: number;
+  enter: 'down' | 'left' | 'right';
+  exit: 'up' | 'none';
+  label?: string;
+}
+
+// The schema's inferred types lose required fields without strictNullChecks,
+// so the parsed shapes are spelled out here
+export interface LevelTile {
+  type: 'ground' | 'brick' | 'block' | 'hidden' | 'used' | 'bridge' | 'pipe' | 'cannon' | 'lava';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  repeatX: number;
+  repeatY: number;
+  contents?: BlockContents;
+  warp?: Warp;
+  range?: number;
+}
+
+export type LevelEntity =
+  | { type: 'goomba'; x: number; y: number; direction: -1 | 1; wings?: 'hop' }
+  | { type: 'koopa'; x: number; y: number; direction: -1 | 1; wings?: Wings; range?: number }
+  | { type: 'piranha'; x: number; y: number; minY: number; maxY: number }
+  | { type: 'hammerbro'; x: number; y: number; range: number }
+  | { type: 'lakitu' | 'axe'; x: number; y: number }
+  | { type: 'firebar'; x: number; y: number; length: number; speed: number }
+  | { type: 'podoboo'; x: number; y: number; height: number }
+  | { type: 'bowser'; x: number; y: number; range: number }
+  | { type: 'elevator'; x: number; y: number; width: number; height: number; speed: number; minY: number; maxY: number }
+  | { type: 'coin'; x: number; y: number }
+  | { type: 'flag'; x: number; y: number; height: number };
+
+export interface LevelArea {
+  id: string;
+  theme: LevelTheme;
+  music: LevelTheme;
+  width: number;
+  tiles: LevelTile[];
+  entities: LevelEntity[];
+}
+
+export interface LevelDefinition {
+  version: typeof LEVEL_FORMAT_VERSION;
+  id: string;
+  name: string;
+  theme: LevelTheme;
+  music: LevelTheme;
+  width: number;
+  timeLimit: number;
+  spawn: { x: number; y: number };
+  checkpoints: { x: number; y: number }[];
+  next: string | null;
+  tiles: LevelTile[];
+  entities: LevelEntity[];
+  areas: LevelArea[];
+}
+
+export const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || 'level'}: ${issue.message}`);
+
+// Returns a human readable list of problems, empty when the level is valid
+export const validateLevel = (data: unknown): string[] => {
+  const result = levelSchema.safeParse(data);
+  return result.success ? [] : formatIssues(result.error);
+};
+
+// Parse level JSON, filling in defaults. Throws with every validation error on invalid input.
+export const parseLevel = (data: unknown): LevelDefinition => {
+  const result = levelSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid level:\n${formatIssues(result.error).join('\n')}`);
+  }
+  return result.data as LevelDefinition;
+};
@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+import { MARIO_BIG_HEIGHT, MARIO_PHYSICS, MARIO_SMALL_HEIGHT } from './constants';
+import { createInitialState, step } from './engine';
+import type { Action } from './input';
+import { startLevel } from './levels';
+import { createEmptyLevel } from './levels/editing';
+import type { GameState } from './types';
+
+const run = (state: GameState, frames: number, ...actions: Action[]) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set(actions) });
+  }
+  return state;
+};
+
+// Step until `done`, giving up after a few seconds
+const until = (state: GameState, done: (state: GameState) => boolean, ...actions: Action[]) => {
+  for (let i = 0; i < 300 && !done(state); i++) {
+    state = step(state, { actions: new Set(actions) });
+  }
+  return state;
+};
+
+// Mario standing on the flat ground of an empty level
+const standing = (level = createEmptyLevel()): GameState =>
+  run(startLevel(createInitialState(level), level, 1), 60);
+
+const big = (state: GameState): GameState =>
+  ({ ...state, mario: { ...state.mario, big: true, height: MARIO_BIG_HEIGHT, y: state.mario.y + state.mario.height - MARIO_BIG_HEIGHT } });
+
+// Walk right off the end of a ledge, stopping once Mario is in the air
+const walkedOffLedge = () => {
+  const level = createEmptyLevel();
+  const ledge = { ...level, tiles: [...level.tiles, { ...level.tiles[0], y: 272, repeatX: 4 }], spawn: { x: 50, y: 200 } };
+  return until(standing(ledge), state => !state.mario.grounded, 'right');
+};
+
+// Highest point of a jump, as the distance Mario's feet rose
+const jumpHeight = (state: GameState, ...actions: Action[]) => {
+  const ground = state.mario.y;
+  let highest = ground;
+  for (let i = 0; i < 300 && (i === 0 || !state.mario.grounded); i++) {
+    state = step(state, { actions: new Set(actions) });
+    highest = Math.min(highest, state.mario.y);
+  }
+  return ground - highest;
+};
+
+describe('running', () => {
+  it('speeds up to walking speed, or to running speed while run is held', () => {
+    expect(run(standing(), 60, 'right').mario.vx).toBe(MARIO_PHYSICS.walkSpeed);
+    expect(run(standing(), 60, 'right', 'run').mario.vx).toBe(MARIO_PHYSICS.runSpeed);
+  });
+
+  it('takes a moment to get up to speed', () => {
+    const state = run(standing(), 5, 'right');
+    expect(state.mario.vx).toBeCloseTo(5 * MARIO_PHYSICS.walkAcceleration);
+  });
+
+  it('eases back to walking speed when run is let go', () => {
+    const state = run(run(standing(), 60, 'right', 'run'), 1, 'right');
+    expect(state.mario.vx).toBeCloseTo(MARIO_PHYSICS.runSpeed - MARIO_PHYSICS.releaseDeceleration);
+  });
+
+  it('runs across the seams between ground tiles without catching on them', () => {
+    const state = run(standing(), 300, 'right', 'run');
+
+    expect(state.mario.vx).toBe(MARIO_PHYSICS.runSpeed);
+    expect(state.mario.x).toBeGreaterThan(1000);
+  });
+
+  it('coasts to a stop', () => {
+    const moving = run(standing(), 60, 'right');
+    const stopped = run(moving, 60);
+
+    expect(stopped.mario.vx).toBe(0);
+    expect(stopped.mario.x).toBeGreaterThan(moving.mario.x);
+  });
+});
+
+describe('skidding', () => {
+  it('skids before turning around at speed', () => {
+    const fast = run(standing(), 60, 'right', 'run');
+    const skidding = run(fast, 1, 'left');
+    expect(skidding.mario).toMatchObject({ skidding: true, direction: 1 });
+
+    const turned = run(skidding, 30, 'left');
+    expect(turned.mario).toMatchObject({ skidding: false, direction: -1 });
+    expect(turned.mario.vx).toBeLessThan(0);
+  });
+
+  it('steers without skidding or turning in the air', () => {
+    const jumping = run(run(standing(), 60, 'right', 'run'), 1, 'right', 'run', 'jump');
+    const steered = run(jumping, 5, 'left');
+
+    expect(steered.mario).toMatchObject({ skidding: false, direction: 1 });
+    expect(steered.mario.vx).toBeCloseTo(MARIO_PHYSICS.runSpeed - 5 * MARIO_PHYSICS.airAcceleration);
+  });
+});
+
+describe('jumping', () => {
+  it('jumps higher from a run-up', () => {
+    const standingJump = jumpHeight(standing(), 'jump');
+    const runningJump = jumpHeight(run(standing(), 60, 'right', 'run'), 'right', 'run', 'jump');
+
+    expect(runningJump).toBeGreaterThan(standingJump);
+  });
+
+  it('jumps higher the longer jump is held', () => {
+    const tapped = jumpHeight(run(standing(), 1, 'jump'));
+    expect(jumpHeight(standing(), 'jump')).toBeGreaterThan(tapped * 1.5);
+  });
+
+  it('needs a new press to jump again after landing', () => {
+    const state = until(run(standing(), 1, 'jump'), state => state.mario.grounded, 'jump');
+
+    expect(run(state, 10, 'jump').mario.grounded).toBe(true);
+  });
+});
+
+describe('coyote time', () => {
+  it('still jumps just after walking off a ledge', () => {
+    const state = run(run(walkedOffLedge(), 3, 'right'), 1, 'right', 'jump');
+    expect(state.mario.vy).toBeLessThan(0);
+    expect(state.events).toContain('jump');
+  });
+
+  it('does not jump once Mario has been falling for a while', () => {
+    const state = run(run(walkedOffLedge(), MARIO_PHYSICS.coyoteFrames + 1, 'right'), 1, 'right', 'jump');
+    expect(state.mario.vy).toBeGreaterThan(0);
+  });
+});
+
+describe('jump buffering', () => {
+  const falling = (): GameState => {
+    const state = standing();
+    return { ...state, mario: { ...state.mario, y: state.mario.y - 60, grounded: false, coyoteTime: 0 } };
+  };
+
+  it('jumps on landing when jump was pressed just before', () => {
+    // Three frames above the ground
+    const state = until(falling(), state => state.mario.y + state.mario.height + state.mario.vy * 3 >= 368);
+
+    expect(run(run(state, 1, 'jump'), 10, 'jump').mario.grounded).toBe(false);
+  });
+
+  it('forgets a jump pressed too long before landing', () => {
+    expect(run(run(falling(), 1, 'jump'), 30).mario.grounded).toBe(true);
+  });
+});
+
+describe('crouching', () => {
+  // Bricks over the ground from x=320 to x=416, leaving a one-tile gap under them
+  const lowCeiling = () => {
+    const level = createEmptyLevel();
+    return big(standing({ ...level, tiles: [...level.tiles, { ...level.tiles[0], type: 'brick', x: 320, y: 304, repeatX: 3 }] }));
+  };
+
+  it('ducks Big Mario to small Mario\'s height, feet on the ground', () => {
+    const state = run(big(standing()), 1, 'down');
+
+    expect(state.mario).toMatchObject({ crouching: true, height: MARIO_SMALL_HEIGHT });
+    expect(state.mario.y + state.mario.height).toBe(368);
+    expect(run(state, 1).mario).toMatchObject({ crouching: false, height: MARIO_BIG_HEIGHT });
+  });
+
+  it('does not crouch small Mario', () => {
+    expect(run(standing(), 1, 'down').mario.crouching).toBeFalsy();
+  });
+
+  it('slides on from a run, ignoring left and right', () => {
+    const running = run(big(standing()), 60, 'right', 'run');
+    const sliding = run(running, 10, 'down', 'left');
+
+    expect(sliding.mario.vx).toBeCloseTo(MARIO_PHYSICS.runSpeed - 10 * MARIO_PHYSICS.releaseDeceleration);
+  });
+
+  it('is too tall for a one-tile gap standing up', () => {
+    const state = run(lowCeiling(), 200, 'right');
+    expect(state.mario.x + state.mario.width).toBe(320);
+  });
+
+  it('slides under a one-tile gap and shuffles out the other side', () => {
+    let state = until(lowCeiling(), state => state.mario.x > 260, 'right', 'run');
+    state = until(state, state => state.mario.vx === 0 || state.mario.x > 416, 'down');
+    expect(state.mario.x).toBeGreaterThan(320);
+
+    // Still under the bricks after letting go of down, so he stays ducked
+    state = run(state, 1, 'right');
+    expect(state.mario.crouching).toBe(true);
+    expect(Math.abs(state.mario.vx)).toBeLessThanOrEqual(MARIO_PHYSICS.crouchShuffleSpeed);
+
+    state = until(state, state => !state.mario.crouching, 'right');
+    expect(state.mario.x).toBeGreaterThanOrEqual(416);
+    expect(state.mario.height).toBe(MARIO_BIG_HEIGHT);
+  });
+});
@@ -0,0 +1,200 @@
+import { hitBlock } from './blocks';
+import { checkCollision, solidsNear } from './collision';
+import { MARIO_BIG_HEIGHT, MARIO_PHYSICS, MARIO_SMALL_HEIGHT, type MarioPhysics } from './constants';
+import type { Action } from './input';
+import { colAt, getTile, rowAt, TILE_PROPERTIES, tileBounds } from './tilemap';
+import type { GameObject, GameState } from './types';
+
+// Accelerate toward the held direction, skid when reversing on the ground, coast to a stop otherwise
+const updateRunSpeed = (mario: GameObject, actions: ReadonlySet<Action>, physics: MarioPhysics) => {
+  const input = (actions.has('right') ? 1 : 0) - (actions.has('left') ? 1 : 0);
+  const speed = Math.abs(mario.vx);
+  const moving = Math.sign(mario.vx);
+  mario.skidding = false;
+
+  if (input === 0) {
+    mario.vx = moving * Math.max(0, speed - physics.releaseDeceleration);
+  } else if (moving !== 0 && input !== moving) {
+    if (!mario.grounded) {
+      // No skidding in the air, just steer
+      mario.vx += input * physics.airAcceleration;
+    } else if (speed - physics.skidDeceleration > physics.turnAroundSpeed) {
+      mario.skidding = true;
+      mario.vx -= moving * physics.skidDeceleration;
+    } else {
+      mario.vx = 0;
+      mario.direction = input;
+    }
+  } else {
+    const running = actions.has('run');
+    const topSpeed = running ? physics.runSpeed : physics.walkSpeed;
+    const acceleration = !mario.grounded ? physics.airAcceleration : running ? physics.runAcceleration : physics.walkAcceleration;
+
+    // Letting go of run eases back down to walking speed
+    mario.vx = input * (speed < topSpeed
+      ? Math.min(topSpeed, speed + acceleration)
+      : Math.max(topSpeed, speed - physics.releaseDeceleration));
+
+    // Mario can't turn around in mid-air
+    if (mario.grounded) {
+      mario.direction = input;
+    }
+  }
+};
+
+// Match Mario's hitbox to his size and pose, keeping his feet where they are
+export const resizeMario = (mario: GameObject) => {
+  const height = mario.big && !mario.crouching ? MARIO_BIG_HEIGHT : MARIO_SMALL_HEIGHT;
+  mario.y += mario.height - height;
+  mario.height = height;
+};
+
+// Could Mario stand up to full height where he is?
+const hasHeadroom = (state: GameState, mario: GameObject, objects: GameObject[]) => {
+  const standing = { ...mario, y: mario.y + mario.height - MARIO_BIG_HEIGHT, height: MARIO_BIG_HEIGHT };
+  return !solidsNear(state, objects, standing).some(obj => checkCollision(standing, obj));
+};
+
+// Big Mario ducks while down is held on the ground. He stays down through a
+// crouch-jump, and until there's room to stand up again.
+const updateCrouch = (state: GameState, mario: GameObject, objects: GameObject[]) => {
+  const wantsDown = state.actions.has('down');
+
+  if (mario.big && wantsDown && mario.grounded && !mario.crouching) {
+    mario.crouching = true;
+    resizeMario(mario);
+  } else if (mario.crouching && (!mario.big || (!wantsDown && mario.grounded && hasHeadroom(state, mario, objects)))) {
+    mario.crouching = false;
+    resizeMario(mario);
+  }
+};
+
+// Faster run-ups jump higher
+const jumpForce = (speed: number, physics: MarioPhysics) =>
+  physics.jumpForces.reduce((force, tier) => speed >= tier.minSpeed ? tier.force : force, physics.jumpForces[0].force);
+
+// Turn the player's actions into Mario's velocity, jumps and fireballs
+export const applyMarioInput = (state: GameState, mario: GameObject, objects: GameObject[], physics = MARIO_PHYSICS) => {
+  const { actions } = state;
+
+  updateCrouch(state, mario, objects);
+
+  if (mario.crouching && mario.grounded) {
+    if (actions.has('down')) {
+      // Crouch-slide: keep the momentum but ignore left and right
+      updateRunSpeed(mario, new Set(), physics);
+    } else {
+      // Stuck under a low ceiling: shuffle along until there's room to stand
+      updateRunSpeed(mario, actions, physics);
+      mario.vx = Math.max(-physics.crouchShuffleSpeed, Math.min(physics.crouchShuffleSpeed, mario.vx));
+    }
+  } else {
+    updateRunSpeed(mario, actions, physics);
+  }
+
+  // Jumps start on the press, not while the button is held
+  if (state.pressed.has('jump')) {
+    mario.jumpBuffer = physics.jumpBufferFrames;
+  } else if (mario.jumpBuffer > 0) {
+    mario.jumpBuffer--;
+  }
+
+  if (mario.grounded) {
+    mario.coyoteTime = physics.coyoteFrames;
+  } else if (mario.coyoteTime > 0) {
+    mario.coyoteTime--;
+  }
+
+  if (mario.jumpBuffer > 0 && mario.coyoteTime > 0) {
+    mario.vy = jumpForce(Math.abs(mario.vx), physics);
+    mario.grounded = false;
+    mario.skidding = false;
+    mario.jumpBuffer = 0;
+    mario.coyoteTime = 0;
+    state.events.push('jump');
+  }
+
+  // Fireball shooting - only if Fire Mario
+  if (actions.has('fire') && mario.fire) {
+    // Check if we can shoot (prevent rapid fire): the newest fireball still in play has to be clear of Mario
+    const lastFireball = objects.filter(obj => obj.type === 'fireball' && obj.active).pop();
+    if (!lastFireball || Math.abs(lastFireball.x - mario.x) > 100) {
+      const fireball: GameObject = {
+        x: mario.x + (mario.direction < 0 ? -16 : mario.width),
+        y: mario.y + mario.height / 2,
+        width: 8,
+        height: 8,
+        type: 'fireball',
+        active: true,
+        vx: mario.direction < 0 ? -8 : 8,
+        vy: -2,
+        bounce: 3
+      };
+      objects.push(fireball);
+      state.events.push('fireball');
+    }
+  }
+};
+
+// Apply gravity and integrate Mario's position
+export const moveMario = (state: GameState, mario: GameObject, physics = MARIO_PHYSICS) => {
+  mario.vy += mario.vy < 0 && state.actions.has('jump') ? physics.jumpHoldGravity : physics.gravity;
+  if (mario.vy > physics.maxFallSpeed) mario.vy = physics.maxFallSpeed;
+
+  mario.x += mario.vx;
+  mario.y += mario.vy;
+};
+
+// Push Mario out of solid objects (ground, pipes, blocks) and trigger blocks hit from below
+export const resolveMarioCollisions = (state: GameState, mario: GameObject, objects: GameObject[], prevY: number) => {
+  let onGround = false;
+
+  // Blocks and bricks hit from below: look up the tile right above Mario's head
+  if (mario.vy < 0) {
+    const col = colAt(mario.x + mario.width / 2);
+    const row = rowAt(mario.y);
+    const block = tileBounds(col, row);
+    if (TILE_PROPERTIES[getTile(state.tiles, col, row)].bumpable && prevY >= block.y + block.height - 5) {
+      mario.vy = 3; // Bounce downward
+      mario.y = block.y + block.height; // Position Mario just below the block
+      hitBlock(state, col, row, mario, objects);
+    }
+  }
+
+  // Pushing Mario out of one object can move him by up to a tile into the next
+  solidsNear(state, objects, mario, 32).forEach(obj => {
+    if (!checkCollision(mario, obj)) return;
+
+    // Determine collision direction
+    const overlapX = Math.min(mario.x + mario.width - obj.x, obj.x + obj.width - mario.x);
+    const overlapY = Math.min(mario.y + mario.height - obj.y, obj.y + obj.height - mario.y);
+    // Feet that were above the object last frame land on it, so the seams
+    // between ground tiles can't stop Mario like a wall
+    const landing = prevY + mario.height <= obj.y;
+
+    if (overlapX < overlapY && !landing) {
+      // Horizontal collision
+      if (mario.x < obj.x) {
+        mario.x = obj.x - mario.width;
+      } else {
+        mario.x = obj.x + obj.width;
+      }
+      mario.vx = 0;
+    } else {
+      // Vertical collision
+      if (mario.y < obj.y) {
+        mario.y = obj.y - mario.height;
+        mario.vy = 0;
+        mario.grounded = true;
+        onGround = true;
+      } else {
+        mario.y = obj.y + obj.height;
+        mario.vy = 0;
+      }
+    }
+  });
+
+  if (!onGround && mario.vy >= 0) {
+    mario.grounded = false;
+  }
+};
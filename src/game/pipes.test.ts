@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, step } from './engine';
+import type { Action } from './input';
+import { enterArea, findArea, getLevel, MAIN_AREA, startLevel } from './levels';
+import type { GameState } from './types';
+
+const level = getLevel('1-1');
+
+// Mario at the given spot in 1-1, with nothing else moving
+const marioAt = (x: number, feet: number): GameState => {
+  const state = startLevel(createInitialState(level), level, 1);
+  return {
+    ...state,
+    objects: state.objects.map(obj => (obj.type === 'goomba' || obj.type === 'koopa' ? { ...obj, active: false } : obj)),
+    mario: { ...state.mario, x, y: feet - state.mario.height, grounded: true }
+  };
+};
+
+const holdUntil = (state: GameState, actions: Action[], done: (state: GameState) => boolean) => {
+  for (let i = 0; i < 300 && !done(state); i++) {
+    state = step(state, { actions: new Set(actions) });
+  }
+  return state;
+};
+
+// 1-1's pipe down to the coin room
+const BONUS_PIPE = { x: 928, y: 240, width: 64 };
+
+describe('warp pipes', () => {
+  it('takes Mario down a pipe into another area', () => {
+    const start = marioAt(BONUS_PIPE.x + 22, BONUS_PIPE.y);
+    const entering = step(start, { actions: new Set(['down']) });
+    expect(entering.pipeTransition).toMatchObject({ stage: 'enter', direction: 'down' });
+    expect(entering.events).toContain('pipe');
+
+    const state = holdUntil(entering, ['down'], state => !state.pipeTransition);
+    expect(state.area).toMatchObject({ id: 'bonus', theme: 'underground', width: 800 });
+    expect(state.mario).toMatchObject({ x: 64, y: 64 - state.mario.height });
+    expect(state.camera.x).toBe(0);
+  });
+
+  it('only goes down when Mario stands over the middle of the pipe', () => {
+    const state = step(marioAt(BONUS_PIPE.x - 8, BONUS_PIPE.y), { actions: new Set(['down']) });
+    expect(state.pipeTransition).toBeNull();
+  });
+
+  it('keeps the level\'s clock running in another area', () => {
+    const start = { ...marioAt(BONUS_PIPE.x + 22, BONUS_PIPE.y), time: 123 };
+    const state = holdUntil(start, ['down'], state => state.area.id === 'bonus');
+
+    expect(state.time).toBeLessThan(123);
+    expect(state.time).toBeGreaterThan(122);
+  });
+
+  it('brings Mario back up out of a pipe in an area as he left it', () => {
+    let state = holdUntil(marioAt(BONUS_PIPE.x + 22, BONUS_PIPE.y), ['down'], state => state.area.id === 'bonus' && !state.pipeTransition);
+    const coins = state.objects.filter(obj => obj.type === 'coin' && obj.active).length;
+
+    // The way out is the end of a pipe on the floor, walked into from the left
+    state = { ...state, mario: { ...state.mario, x: 672 - state.mario.width, y: 368 - state.mario.height, grounded: true } };
+    state = holdUntil(state, ['right'], state => state.area.id === MAIN_AREA && !state.pipeTransition);
+
+    expect(state.mario).toMatchObject({ x: 1366, y: 208 - state.mario.height });
+    expect(state.savedAreas.bonus.objects.filter(obj => obj.type === 'coin' && obj.active)).toHaveLength(coins);
+  });
+
+  it('keeps enemies waiting to come back in the area they were knocked out of', () => {
+    const start = marioAt(BONUS_PIPE.x + 22, BONUS_PIPE.y);
+    const goomba = start.objects.find(obj => obj.type === 'goomba');
+    const waiting = { ...start, respawns: [{ frames: 100, enemy: goomba }] };
+
+    const inBonus = enterArea(waiting, findArea(level, 'bonus'));
+    expect(inBonus.respawns).toEqual([]);
+    expect(enterArea(inBonus, findArea(level, MAIN_AREA)).respawns).toEqual(waiting.respawns);
+  });
+
+  it('does not move anything else while Mario is in a pipe', () => {
+    const enemiesAwake = { ...marioAt(BONUS_PIPE.x + 22, BONUS_PIPE.y), objects: startLevel(createInitialState(level), level, 1).objects };
+    const entering = step(enemiesAwake, { actions: new Set(['down']) });
+    const inside = step(entering, { actions: new Set(['down']) });
+
+    expect(inside.objects).toEqual(entering.objects);
+    expect(inside.time).toBe(entering.time);
+  });
+});
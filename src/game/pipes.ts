@@ -0,0 +1,105 @@
+import { CANVAS_WIDTH } from './constants';
+import { advanceToLevel, enterArea, findArea, findLevel, type Warp } from './levels';
+import { resizeMario } from './physics';
+import { expandBounds, queryObjects } from './spatial';
+import type { GameObject, GameState, PipeTransition } from './types';
+
+// Pixels Mario slides per frame going into or out of a pipe
+const PIPE_SPEED = 1;
+// How close to the middle of a pipe's top Mario has to stand to go down it
+const PIPE_ENTRY_MARGIN = 16;
+
+// Level and area a warp leads to, if they exist
+const destinationOf = (state: GameState, warp: Warp) => {
+  const level = !warp.level || warp.level === state.level.id ? state.level : findLevel(warp.level);
+  const area = level && findArea(level, warp.area);
+  return area && { level, area };
+};
+
+// Is Mario lined up with the pipe's mouth and pushing into it?
+const canEnter = (state: GameState, mario: GameObject, pipe: GameObject) => {
+  const feet = mario.y + mario.height;
+
+  switch (pipe.warp.enter) {
+    case 'down': {
+      const middle = mario.x + mario.width / 2;
+      return state.actions.has('down') && feet === pipe.y &&
+        middle >= pipe.x + PIPE_ENTRY_MARGIN && middle <= pipe.x + pipe.width - PIPE_ENTRY_MARGIN;
+    }
+    case 'right':
+      return state.actions.has('right') && feet === pipe.y + pipe.height && mario.x + mario.width === pipe.x;
+    case 'left':
+      return state.actions.has('left') && feet === pipe.y + pipe.height && mario.x === pipe.x + pipe.width;
+  }
+};
+
+// Start going down a warp pipe Mario is standing on or walking into
+export const tryEnterPipe = (state: GameState, mario: GameObject, objects: GameObject[]) => {
+  if (!mario.grounded) return;
+
+  const pipe = queryObjects(state.solids, objects, expandBounds(mario, 1)).find(obj =>
+    obj.type === 'pipe' && obj.warp && destinationOf(state, obj.warp) && canEnter(state, mario, obj)
+  );
+  if (!pipe) return;
+
+  mario.crouching = false;
+  mario.skidding = false;
+  resizeMario(mario);
+  mario.vx = 0;
+  mario.vy = 0;
+  state.pipeTransition = { stage: 'enter', direction: pipe.warp.enter, frames: 0, warp: pipe.warp };
+  state.events.push('pipe');
+};
+
+// Take Mario where a pipe or vine leads. Another area of the level keeps the
+// clock running; another level starts afresh.
+export const followWarp = (state: GameState, mario: GameObject, warp: Warp): GameState => {
+  const { level, area } = destinationOf(state, warp);
+  let next = state;
+  if (level !== state.level) {
+    next = advanceToLevel(state, level);
+  }
+  if (area.id !== next.area.id) {
+    next = enterArea(next, area);
+  }
+
+  // Coming out of a pipe starts with Mario hidden inside it
+  mario.x = warp.x;
+  mario.y = warp.y - (warp.exit === 'up' ? 0 : mario.height);
+  mario.grounded = warp.exit === 'up';
+  mario.climbing = false;
+  next.mario = mario;
+  next.camera = { x: Math.max(0, Math.min(mario.x - CANVAS_WIDTH / 2, area.width - CANVAS_WIDTH)), y: 0 };
+  next.pipeTransition = warp.exit === 'up' ? { stage: 'exit', direction: 'up', frames: 0, warp } : null;
+  if (warp.exit === 'up') {
+    next.events.push('pipe');
+  }
+  return next;
+};
+
+// Slide into the pipe, warp, then slide out at the other end. Nothing else moves meanwhile.
+export const updatePipeTransition = (state: GameState, mario: GameObject, objects: GameObject[]): GameState => {
+  const transition: PipeTransition = { ...state.pipeTransition, frames: state.pipeTransition.frames + 1 };
+  const { stage, direction, frames, warp } = transition;
+
+  if (direction === 'up') mario.y -= PIPE_SPEED;
+  if (direction === 'down') mario.y += PIPE_SPEED;
+  if (direction === 'left') mario.x -= PIPE_SPEED;
+  if (direction === 'right') mario.x += PIPE_SPEED;
+
+  state.objects = objects;
+  const distance = direction === 'left' || direction === 'right' ? mario.width : mario.height;
+  if (frames * PIPE_SPEED < distance) {
+    state.pipeTransition = transition;
+    state.mario = mario;
+    return state;
+  }
+
+  if (stage === 'enter') {
+    return followWarp(state, mario, warp);
+  }
+
+  state.pipeTransition = null;
+  state.mario = mario;
+  return state;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { nextRandom } from './random';
+
+describe('nextRandom', () => {
+  it('gives the same sequence for the same seed', () => {
+    const sequence = (seed: number) => {
+      const values: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        const [value, next] = nextRandom(seed);
+        values.push(value);
+        seed = next;
+      }
+      return values;
+    };
+
+    expect(sequence(7)).toEqual(sequence(7));
+    expect(sequence(7)).not.toEqual(sequence(8));
+  });
+
+  it('stays in [0, 1)', () => {
+    let seed = 0;
+    for (let i = 0; i < 1000; i++) {
+      const [value, next] = nextRandom(seed);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      seed = next;
+    }
+  });
+});
@@ -0,0 +1,19 @@
+import type { GameState } from './types';
+
+// mulberry32: returns a value in [0, 1) and the generator's next state
+export const nextRandom = (rngState: number): [number, number] => {
+  const next = (rngState + 0x6D2B79F5) >>> 0;
+  let r = Math.imul(next ^ (next >>> 15), next | 1);
+  r ^= r + Math.imul(r ^ (r >>> 7), r | 61);
+  return [((r ^ (r >>> 14)) >>> 0) / 4294967296, next];
+};
+
+// Draw from the game's own generator so runs can be reproduced from their seed
+export const random = (state: GameState) => {
+  const [value, next] = nextRandom(state.rngState);
+  state.rngState = next;
+  return value;
+};
+
+// Seed for a new run. The only place the engine's randomness touches Math.random.
+export const createSeed = () => Math.floor(Math.random() * 4294967296);
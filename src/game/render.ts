@@ -0,0 +1,1063 @@
+import { BUMP_FRAMES } from './blocks';
+import { checkCollision } from './collision';
+import { DEATH_ANIMATION_FRAMES } from './death';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, MARIO_SMALL_HEIGHT } from './constants';
+import { firebarSegments } from './enemies/firebar';
+import { MAIN_AREA, type LevelTheme } from './levels/schema';
+import { getTile, TILE, TILE_ORIGIN_Y, TILE_SIZE, tileBounds, type TileId, type TileMap } from './tilemap';
+import type { BlockBump, GameObject, GameState } from './types';
+
+// Big Mario ducking: head pulled down into a wide crouch, feet tucked under
+const drawCrouchingMario = (ctx: CanvasRenderingContext2D, mario: GameObject, screenX: number, screenY: number) => {
+  // Overalls spread out over the bent knees
+  ctx.fillStyle = '#2E86AB';
+  ctx.fillRect(screenX, screenY + 11, 20, 7);
+
+  // Shirt
+  ctx.fillStyle = mario.fire ? '#FFFFFF' : '#F24236';
+  ctx.fillRect(screenX + 3, screenY + 9, 14, 4);
+
+  // Head
+  ctx.fillStyle = '#FFBE9D';
+  ctx.fillRect(screenX + 3, screenY + 2, 14, 8);
+
+  // Hat and emblem
+  ctx.fillStyle = '#E74C3C';
+  ctx.fillRect(screenX + 2, screenY, 16, 5);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(screenX + 8, screenY + 1, 4, 3);
+
+  // Eyes and mustache
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(screenX + 6, screenY + 5, 2, 2);
+  ctx.fillRect(screenX + 12, screenY + 5, 2, 2);
+  ctx.fillStyle = '#8B4513';
+  ctx.fillRect(screenX + 7, screenY + 7, 6, 2);
+
+  // Shoes poking out either side
+  ctx.fillRect(screenX - 1, screenY + mario.height - 3, 7, 3);
+  ctx.fillRect(screenX + 14, screenY + mario.height - 3, 7, 3);
+};
+
+// Small Mario facing out of the screen with his arms thrown up, for the death jump
+const drawDeadMario = (ctx: CanvasRenderingContext2D, screenX: number, screenY: number) => {
+  // Arms
+  ctx.fillStyle = '#FFBE9D';
+  ctx.fillRect(screenX - 2, screenY - 4, 4, 10);
+  ctx.fillRect(screenX + 18, screenY - 4, 4, 10);
+
+  // Overalls and shirt
+  ctx.fillStyle = '#2E86AB';
+  ctx.fillRect(screenX + 2, screenY + 10, 16, 10);
+  ctx.fillStyle = '#F24236';
+  ctx.fillRect(screenX + 2, screenY + 6, 16, 6);
+
+  // Head and hat
+  ctx.fillStyle = '#FFBE9D';
+  ctx.fillRect(screenX + 3, screenY + 1, 14, 8);
+  ctx.fillStyle = '#E74C3C';
+  ctx.fillRect(screenX + 2, screenY - 2, 16, 4);
+
+  // Wide eyes and an open mouth
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(screenX + 5, screenY + 3, 3, 3);
+  ctx.fillRect(screenX + 12, screenY + 3, 3, 3);
+  ctx.fillRect(screenX + 8, screenY + 7, 4, 2);
+};
+
+// Enhanced Mario drawing
+export const drawMario = (ctx: CanvasRenderingContext2D, mario: GameObject, camera: { x: number; y: number }) => {
+  const screenX = mario.x - camera.x;
+  const screenY = mario.y - camera.y;
+  const size = mario.big ? 1.2 : 1;
+
+  if (!mario.active) {
+    drawDeadMario(ctx, screenX, screenY);
+    return;
+  }
+
+  // Invincibility flashing effect
+  if (mario.invincible && mario.invincible > 0 && Math.floor(Date.now() / 100) % 2) {
+    return; // Skip drawing for flashing effect
+  }
+
+  if (mario.crouching) {
+    drawCrouchingMario(ctx, mario, screenX, screenY);
+    return;
+  }
+
+  // Mario overalls
+  ctx.fillStyle = '#2E86AB';
+  ctx.fillRect(screenX + 2, screenY + 8 * size, 16, Math.max(12 * size, mario.height - 4 - 8 * size));
+
+  // Mario shirt
+  ctx.fillStyle = mario.fire ? '#FFFFFF' : '#F24236';
+  ctx.fillRect(screenX + 4, screenY + 6 * size, 12, 8 * size);
+
+  // Mario head
+  ctx.fillStyle = '#FFBE9D';
+  ctx.fillRect(screenX + 3, screenY + 2, 14, 10 * size);
+
+  // Mario hat
+  ctx.fillStyle = '#E74C3C';
+  ctx.fillRect(screenX + 2, screenY, 16, 6 * size);
+
+  // Mario hat emblem
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(screenX + 8, screenY + 1, 4, 3 * size);
+  ctx.fillStyle = '#E74C3C';
+  ctx.fillRect(screenX + 9, screenY + 2, 2, 1 * size);
+
+  // Eyes
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(screenX + 6, screenY + 5, 2, 2);
+  ctx.fillRect(screenX + 12, screenY + 5, 2, 2);
+
+  // Mustache
+  ctx.fillStyle = '#8B4513';
+  ctx.fillRect(screenX + 7, screenY + 8, 6, 2);
+
+  // Shoes - one foot above the other while climbing, swapping as he goes
+  ctx.fillStyle = '#8B4513';
+  const step = mario.climbing ? (Math.floor(mario.y / 8) % 2 ? 4 : -4) : 0;
+  ctx.fillRect(screenX + 2, screenY + mario.height - 4 - Math.max(0, step), 6, 4);
+  ctx.fillRect(screenX + 12, screenY + mario.height - 4 + Math.min(0, step), 6, 4);
+
+  // Hands up on the vine
+  if (mario.climbing) {
+    const handX = mario.direction < 0 ? screenX + mario.width - 4 : screenX;
+    ctx.fillStyle = '#FFBE9D';
+    ctx.fillRect(handX, screenY - 4 - step, 4, 4);
+    ctx.fillRect(handX, screenY + 6 + step, 4, 4);
+  }
+
+  // Dust kicked up ahead of a skid
+  if (mario.skidding) {
+    const dustX = mario.vx > 0 ? screenX + mario.width : screenX - 6;
+    ctx.fillStyle = '#D5D8DC';
+    ctx.fillRect(dustX, screenY + mario.height - 6, 6, 6);
+    ctx.fillRect(dustX + (mario.vx > 0 ? 4 : -2), screenY + mario.height - 10, 4, 4);
+  }
+};
+
+export const drawTile = (ctx: CanvasRenderingContext2D, id: TileId, x: number, y: number, theme: LevelTheme) => {
+  switch (id) {
+    case TILE.GROUND:
+      if (theme === 'sky') {
+        // Cloud tops
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(x, y + 4, TILE_SIZE, TILE_SIZE - 4);
+        ctx.beginPath();
+        ctx.arc(x + 8, y + 10, 8, 0, Math.PI * 2);
+        ctx.arc(x + 24, y + 10, 8, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      }
+      // Different colors for different levels
+      ctx.fillStyle = theme === 'underground' ? '#4A4A4A' : theme === 'castle' ? '#95A5A6' : '#8B4513';
+      ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+      ctx.strokeStyle = theme === 'underground' ? '#2A2A2A' : theme === 'castle' ? '#5D6D7E' : '#654321';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, TILE_SIZE, TILE_SIZE);
+      break;
+
+    case TILE.BLOCK:
+      ctx.fillStyle = '#F39C12';
+      ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+      ctx.strokeStyle = '#E67E22';
+      ctx.lineWidth = 3;
+      ctx.strokeRect(x, y, TILE_SIZE, TILE_SIZE);
+      // Question mark
+      ctx.fillStyle = '#FFFFFF';
+      ctx.font = 'bold 18px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText('?', x + 16, y + 22);
+      break;
+
+    case TILE.USED:
+      ctx.fillStyle = '#A0522D';
+      ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+      ctx.strokeStyle = '#5D4037';
+      ctx.lineWidth = 3;
+      ctx.strokeRect(x, y, TILE_SIZE, TILE_SIZE);
+      // Rivets
+      ctx.fillStyle = '#5D4037';
+      ctx.fillRect(x + 5, y + 5, 3, 3);
+      ctx.fillRect(x + 24, y + 5, 3, 3);
+      ctx.fillRect(x + 5, y + 24, 3, 3);
+      ctx.fillRect(x + 24, y + 24, 3, 3);
+      break;
+
+    case TILE.BRICK:
+      ctx.fillStyle = theme === 'underground' ? '#8B4513' : '#D2691E';
+      ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+      ctx.strokeStyle = theme === 'underground' ? '#654321' : '#A0522D';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, TILE_SIZE, TILE_SIZE);
+      // Brick pattern
+      ctx.strokeStyle = theme === 'underground' ? '#5D4037' : '#8B4513';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x + 16, y);
+      ctx.lineTo(x + 16, y + 16);
+      ctx.moveTo(x, y + 16);
+      ctx.lineTo(x + 32, y + 16);
+      ctx.stroke();
+      break;
+
+    case TILE.BRIDGE:
+      // Planks over a hanging chain
+      ctx.fillStyle = '#D35400';
+      ctx.fillRect(x, y, TILE_SIZE, 12);
+      ctx.strokeStyle = '#873600';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, 16, 12);
+      ctx.strokeRect(x + 16, y, 16, 12);
+      ctx.strokeStyle = '#BDC3C7';
+      ctx.beginPath();
+      ctx.arc(x + 8, y + 16, 4, 0, Math.PI * 2);
+      ctx.arc(x + 24, y + 16, 4, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+  }
+};
+
+// Tiles are pre-rendered in chunks of this many columns
+const CHUNK_COLUMNS = 16;
+
+interface TileChunk {
+  canvas: HTMLCanvasElement;
+  // The cells and theme the chunk was drawn from
+  cells: Uint8Array;
+  theme: LevelTheme;
+}
+
+// Chunk caches per destination canvas, so the game and the editor don't evict each other
+const chunkCaches = new WeakMap<HTMLCanvasElement, Map<number, TileChunk>>();
+
+const sameCells = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+// Return the pre-rendered chunk, redrawing it if any of its tiles changed
+const getTileChunk = (cache: Map<number, TileChunk>, tiles: TileMap, chunk: number, theme: LevelTheme) => {
+  const cells = tiles.cells.subarray(chunk * CHUNK_COLUMNS * tiles.rows, (chunk + 1) * CHUNK_COLUMNS * tiles.rows);
+  const cached = cache.get(chunk);
+  if (cached && cached.theme === theme && sameCells(cached.cells, cells)) {
+    return cached.canvas;
+  }
+
+  const canvas = cached?.canvas ?? document.createElement('canvas');
+  canvas.width = CHUNK_COLUMNS * TILE_SIZE;
+  canvas.height = tiles.rows * TILE_SIZE;
+  const ctx = canvas.getContext('2d');
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  cells.forEach((id, i) => {
+    drawTile(ctx, id as TileId, Math.floor(i / tiles.rows) * TILE_SIZE, (i % tiles.rows) * TILE_SIZE, theme);
+  });
+
+  cache.set(chunk, { canvas, cells: cells.slice(), theme });
+  return canvas;
+};
+
+// Draw the visible part of the tile layer from cached chunks
+export const drawTiles = (ctx: CanvasRenderingContext2D, tiles: TileMap, camera: { x: number; y: number }, theme: LevelTheme) => {
+  let cache = chunkCaches.get(ctx.canvas);
+  if (!cache) {
+    cache = new Map();
+    chunkCaches.set(ctx.canvas, cache);
+  }
+
+  const chunkWidth = CHUNK_COLUMNS * TILE_SIZE;
+  const firstChunk = Math.max(0, Math.floor(camera.x / chunkWidth));
+  const lastChunk = Math.min(Math.ceil(tiles.cols / CHUNK_COLUMNS) - 1, Math.floor((camera.x + CANVAS_WIDTH) / chunkWidth));
+
+  for (let chunk = firstChunk; chunk <= lastChunk; chunk++) {
+    const x = Math.round(chunk * chunkWidth - camera.x);
+    ctx.drawImage(getTileChunk(cache, tiles, chunk, theme), x, TILE_ORIGIN_Y - camera.y);
+  }
+};
+
+// A pair of wings behind a paragoomba or paratroopa, flapping up and down
+const drawWings = (ctx: CanvasRenderingContext2D, obj: GameObject, screenX: number, screenY: number) => {
+  const lift = Math.floor(Date.now() / 150) % 2 ? 0 : 4;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.strokeStyle = '#BDC3C7';
+  ctx.lineWidth = 1;
+  [-1, 1].forEach(side => {
+    const wingX = screenX + obj.width / 2 + side * (obj.width / 2 - 2);
+    ctx.beginPath();
+    ctx.ellipse(wingX + side * 4, screenY + 6 - lift, 6, 4, side * (Math.PI / 6), 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  });
+};
+
+export const drawObject = (ctx: CanvasRenderingContext2D, obj: GameObject, camera: { x: number; y: number }) => {
+  const screenX = obj.x - camera.x;
+  const screenY = obj.y - camera.y;
+
+  if (obj.modifiers?.winged) {
+    drawWings(ctx, obj, screenX, screenY);
+  }
+
+  switch (obj.type) {
+    case 'pipe':
+      // Main pipe body
+      ctx.fillStyle = '#27AE60';
+      ctx.fillRect(screenX, screenY, obj.width, obj.height);
+      ctx.strokeStyle = '#229954';
+      ctx.lineWidth = 3;
+      ctx.strokeRect(screenX, screenY, obj.width, obj.height);
+
+      if (obj.warp?.enter === 'left' || obj.warp?.enter === 'right') {
+        // Sideways pipe: cap and opening at the end Mario walks into
+        const capX = obj.warp.enter === 'right' ? screenX - 4 : screenX + obj.width - 12;
+        ctx.fillStyle = '#2ECC71';
+        ctx.fillRect(capX, screenY - 4, 16, obj.height + 4);
+        ctx.strokeStyle = '#27AE60';
+        ctx.strokeRect(capX, screenY - 4, 16, obj.height + 4);
+
+        ctx.fillStyle = '#1B4F72';
+        ctx.fillRect(obj.warp.enter === 'right' ? capX + 16 : capX - 16, screenY + 8, 16, obj.height - 16);
+      } else {
+        // Pipe cap
+        ctx.fillStyle = '#2ECC71';
+        ctx.fillRect(screenX - 4, screenY, obj.width + 8, 16);
+        ctx.strokeStyle = '#27AE60';
+        ctx.strokeRect(screenX - 4, screenY, obj.width + 8, 16);
+
+        // Pipe opening
+        ctx.fillStyle = '#1B4F72';
+        ctx.fillRect(screenX + 8, screenY + 16, obj.width - 16, 16);
+      }
+
+      if (obj.warp?.label) {
+        ctx.fillStyle = '#FFFFFF';
+        ctx.font = 'bold 20px monospace';
+        ctx.textAlign = 'center';
+        ctx.fillText(obj.warp.label, screenX + obj.width / 2, screenY - 16);
+      }
+      break;
+
+    case 'cannon':
+      // Pedestal under the barrel
+      ctx.fillStyle = '#5D4037';
+      ctx.fillRect(screenX + 4, screenY + 32, obj.width - 8, obj.height - 32);
+      ctx.strokeStyle = '#3E2723';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(screenX + 4, screenY + 32, obj.width - 8, obj.height - 32);
+
+      // Barrel, with a muzzle on each side
+      ctx.fillStyle = '#2C3E50';
+      ctx.fillRect(screenX, screenY, obj.width, 32);
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(screenX, screenY + 6, 4, 20);
+      ctx.fillRect(screenX + obj.width - 4, screenY + 6, 4, 20);
+
+      // Skull emblem
+      ctx.fillStyle = '#FFFFFF';
+      ctx.beginPath();
+      ctx.arc(screenX + obj.width / 2, screenY + 14, 6, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(screenX + obj.width / 2 - 4, screenY + 12, 3, 3);
+      ctx.fillRect(screenX + obj.width / 2 + 1, screenY + 12, 3, 3);
+      break;
+
+    case 'bullet': {
+      // Rounded nose in the direction of flight, flat back with a fin
+      const nose = obj.direction < 0 ? screenX + obj.height / 2 : screenX + obj.width - obj.height / 2;
+      ctx.fillStyle = '#000000';
+      ctx.beginPath();
+      ctx.arc(nose, screenY + obj.height / 2, obj.height / 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillRect(obj.direction < 0 ? nose : screenX, screenY, obj.width - obj.height / 2, obj.height);
+      ctx.fillStyle = '#7F8C8D';
+      ctx.fillRect(obj.direction < 0 ? screenX + obj.width - 4 : screenX, screenY - 2, 4, obj.height + 4);
+
+      // Eye and arm
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(nose + (obj.direction < 0 ? 0 : -4), screenY + 5, 4, 5);
+      ctx.fillRect(screenX + obj.width / 2 - 2, screenY + 12, 6, 3);
+      break;
+    }
+
+    case 'coin': {
+      // Coin animation
+      const time = Date.now() / 200;
+      const scale = 0.8 + 0.2 * Math.sin(time);
+      const coinSize = 12 * scale;
+
+      ctx.fillStyle = '#F1C40F';
+      ctx.beginPath();
+      ctx.arc(screenX + 8, screenY + 8, coinSize / 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.strokeStyle = '#F39C12';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+
+      // Coin center
+      ctx.fillStyle = '#FFD700';
+      ctx.beginPath();
+      ctx.arc(screenX + 8, screenY + 8, coinSize / 3, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    }
+
+    case 'flag': {
+      // Flag pole
+      ctx.fillStyle = '#228B22';
+      ctx.fillRect(screenX + 14, screenY, 4, obj.height);
+
+      // Flag
+      ctx.fillStyle = '#FF6B6B';
+      ctx.fillRect(screenX - 8, screenY, 24, 16);
+
+      // Castle (draw to the right of flag)
+      const castleX = screenX + obj.width + 20;
+      const castleY = screenY + obj.height - 80;
+
+      // Castle base
+      ctx.fillStyle = '#654321';
+      ctx.fillRect(castleX, castleY, 80, 80);
+
+      // Castle towers
+      ctx.fillRect(castleX - 10, castleY - 20, 20, 100);
+      ctx.fillRect(castleX + 70, castleY - 20, 20, 100);
+
+      // Castle door
+      ctx.fillStyle = '#2F1B14';
+      ctx.fillRect(castleX + 30, castleY + 40, 20, 40);
+
+      // Castle windows
+      ctx.fillStyle = '#F39C12';
+      ctx.fillRect(castleX + 15, castleY + 20, 8, 8);
+      ctx.fillRect(castleX + 57, castleY + 20, 8, 8);
+      break;
+    }
+
+    case 'mushroom':
+    case 'oneup':
+      // Mushroom cap
+      ctx.fillStyle = obj.type === 'oneup' ? '#2ECC71' : '#E74C3C';
+      ctx.beginPath();
+      ctx.roundRect(screenX - 2, screenY, obj.width + 4, 12, 6);
+      ctx.fill();
+
+      // Mushroom stem
+      ctx.fillStyle = '#F4D03F';
+      ctx.fillRect(screenX + 4, screenY + 8, 8, 8);
+
+      // Spots
+      ctx.fillStyle = '#FFFFFF';
+      if (obj.type === 'oneup') {
+        ctx.beginPath();
+        ctx.arc(screenX + 5, screenY + 4, 2, 0, Math.PI * 2);
+        ctx.arc(screenX + 11, screenY + 4, 2, 0, Math.PI * 2);
+        ctx.arc(screenX + 8, screenY + 7, 1.5, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        ctx.beginPath();
+        ctx.arc(screenX + 4, screenY + 4, 2, 0, Math.PI * 2);
+        ctx.arc(screenX + 12, screenY + 4, 2, 0, Math.PI * 2);
+        ctx.arc(screenX + 8, screenY + 7, 1.5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      break;
+
+    case 'goomba':
+      // Goomba body
+      ctx.fillStyle = '#8B4513';
+      ctx.fillRect(screenX + 2, screenY + 8, 16, 12);
+
+      // Goomba head
+      ctx.fillStyle = '#A0522D';
+      ctx.beginPath();
+      ctx.arc(screenX + 10, screenY + 6, 8, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Eyes
+      ctx.fillStyle = '#FFFFFF';
+      ctx.beginPath();
+      ctx.arc(screenX + 7, screenY + 4, 2, 0, Math.PI * 2);
+      ctx.arc(screenX + 13, screenY + 4, 2, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Eye pupils
+      ctx.fillStyle = '#000000';
+      ctx.beginPath();
+      ctx.arc(screenX + 7, screenY + 4, 1, 0, Math.PI * 2);
+      ctx.arc(screenX + 13, screenY + 4, 1, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Eyebrows (angry look)
+      ctx.strokeStyle = '#654321';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(screenX + 5, screenY + 2);
+      ctx.lineTo(screenX + 8, screenY + 1);
+      ctx.moveTo(screenX + 12, screenY + 1);
+      ctx.lineTo(screenX + 15, screenY + 2);
+      ctx.stroke();
+
+      // Feet
+      ctx.fillStyle = '#654321';
+      ctx.fillRect(screenX, screenY + 18, 6, 2);
+      ctx.fillRect(screenX + 14, screenY + 18, 6, 2);
+      break;
+
+    case 'koopa':
+      if (obj.shell) {
+        // Shell form
+        ctx.fillStyle = '#2ECC71';
+        ctx.beginPath();
+        ctx.arc(screenX + 10, screenY + 10, 10, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.strokeStyle = '#27AE60';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+
+        // Shell pattern
+        ctx.fillStyle = '#F1C40F';
+        ctx.fillRect(screenX + 6, screenY + 6, 8, 8);
+      } else {
+        // Normal Koopa
+        ctx.fillStyle = '#2ECC71';
+        ctx.fillRect(screenX + 2, screenY + 8, 16, 12);
+
+        // Shell
+        ctx.fillStyle = '#27AE60';
+        ctx.beginPath();
+        ctx.arc(screenX + 10, screenY + 6, 8, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Head
+        ctx.fillStyle = '#F1C40F';
+        ctx.fillRect(screenX + 6, screenY + 2, 8, 6);
+
+        // Eyes
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(screenX + 7, screenY + 3, 2, 2);
+        ctx.fillRect(screenX + 11, screenY + 3, 2, 2);
+      }
+      break;
+
+    case 'piranha':
+      // Piranha Plant head
+      ctx.fillStyle = '#E74C3C';
+      ctx.beginPath();
+      ctx.arc(screenX + 8, screenY + 8, 8, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Mouth
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(screenX + 4, screenY + 6, 8, 4);
+
+      // Teeth
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(screenX + 5, screenY + 6, 1, 2);
+      ctx.fillRect(screenX + 7, screenY + 6, 1, 2);
+      ctx.fillRect(screenX + 9, screenY + 6, 1, 2);
+      ctx.fillRect(screenX + 11, screenY + 6, 1, 2);
+
+      // Spots
+      ctx.fillStyle = '#FFFFFF';
+      ctx.beginPath();
+      ctx.arc(screenX + 5, screenY + 3, 1, 0, Math.PI * 2);
+      ctx.arc(screenX + 11, screenY + 3, 1, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+
+    case 'hammerbro': {
+      const facing = obj.direction < 0 ? -1 : 1;
+
+      // Shell and belly
+      ctx.fillStyle = '#27AE60';
+      ctx.fillRect(screenX + 2, screenY + 12, 16, 12);
+      ctx.fillStyle = '#F4D03F';
+      ctx.fillRect(screenX + (facing > 0 ? 12 : 2), screenY + 14, 6, 10);
+
+      // Head and helmet
+      ctx.fillStyle = '#F1C40F';
+      ctx.fillRect(screenX + 4, screenY + 4, 12, 9);
+      ctx.fillStyle = '#2C3E50';
+      ctx.fillRect(screenX + 3, screenY, 14, 5);
+
+      // Eye
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(screenX + (facing > 0 ? 12 : 6), screenY + 6, 2, 3);
+
+      // Raised hammer
+      ctx.fillStyle = '#7F8C8D';
+      ctx.fillRect(screenX + (facing > 0 ? 16 : 0), screenY - 6, 4, 6);
+      ctx.fillStyle = '#8B4513';
+      ctx.fillRect(screenX + (facing > 0 ? 17 : 1), screenY, 2, 10);
+
+      // Feet
+      ctx.fillStyle = '#E67E22';
+      ctx.fillRect(screenX, screenY + 24, 8, 4);
+      ctx.fillRect(screenX + 12, screenY + 24, 8, 4);
+      break;
+    }
+
+    case 'hammer':
+      // Spins end over end, a quarter turn every few frames
+      ctx.save();
+      ctx.translate(screenX + obj.width / 2, screenY + obj.height / 2);
+      ctx.rotate(Math.floor((obj.timer || 0) / 4) * (Math.PI / 2) * (obj.direction || 1));
+      ctx.fillStyle = '#8B4513';
+      ctx.fillRect(-1, -2, 3, 8);
+      ctx.fillStyle = '#7F8C8D';
+      ctx.fillRect(-5, -6, 10, 5);
+      ctx.restore();
+      break;
+
+    case 'lakitu': {
+      const facing = obj.direction < 0 ? -1 : 1;
+
+      // Shell and head poking out of the cloud
+      ctx.fillStyle = '#27AE60';
+      ctx.beginPath();
+      ctx.arc(screenX + 12, screenY + 14, 8, Math.PI, 0);
+      ctx.fill();
+      ctx.fillStyle = '#F1C40F';
+      ctx.fillRect(screenX + (facing > 0 ? 13 : 3), screenY + 2, 8, 8);
+
+      // Goggles
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(screenX + (facing > 0 ? 16 : 4), screenY + 3, 4, 3);
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(screenX + (facing > 0 ? 18 : 4), screenY + 4, 2, 2);
+
+      // Cloud
+      ctx.fillStyle = '#FFFFFF';
+      ctx.beginPath();
+      ctx.arc(screenX + 6, screenY + 22, 6, 0, Math.PI * 2);
+      ctx.arc(screenX + 12, screenY + 19, 8, 0, Math.PI * 2);
+      ctx.arc(screenX + 18, screenY + 22, 6, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillRect(screenX + 2, screenY + 22, 20, 8);
+
+      // Cloud face
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(screenX + 8, screenY + 22, 2, 3);
+      ctx.fillRect(screenX + 14, screenY + 22, 2, 3);
+      break;
+    }
+
+    case 'spiny':
+    case 'spinyegg': {
+      const egg = obj.type === 'spinyegg';
+      const middle = screenX + obj.width / 2;
+      const shellTop = egg ? screenY + 4 : screenY + 8;
+
+      // Spikes
+      ctx.fillStyle = '#FFFFFF';
+      [-6, 0, 6].forEach(offset => {
+        ctx.beginPath();
+        ctx.moveTo(middle + offset - 3, shellTop + 2);
+        ctx.lineTo(middle + offset, shellTop - 4);
+        ctx.lineTo(middle + offset + 3, shellTop + 2);
+        ctx.fill();
+      });
+
+      // Shell
+      ctx.fillStyle = '#E74C3C';
+      ctx.beginPath();
+      if (egg) {
+        ctx.arc(middle, screenY + obj.height / 2, obj.width / 2, 0, Math.PI * 2);
+      } else {
+        ctx.arc(middle, screenY + 14, 10, Math.PI, 0);
+      }
+      ctx.fill();
+
+      if (!egg) {
+        // Face and feet
+        ctx.fillStyle = '#F4D03F';
+        ctx.fillRect(obj.direction < 0 ? screenX : screenX + 14, screenY + 12, 6, 5);
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(screenX + 2, screenY + 14, 16, 3);
+        ctx.fillStyle = '#E67E22';
+        ctx.fillRect(screenX + 2, screenY + 17, 6, 3);
+        ctx.fillRect(screenX + 12, screenY + 17, 6, 3);
+      }
+      break;
+    }
+
+    case 'lava': {
+      // Glowing pool with a rolling surface
+      ctx.fillStyle = '#E74C3C';
+      ctx.fillRect(screenX, screenY + 4, obj.width, obj.height - 4);
+      ctx.fillStyle = '#F39C12';
+      const wave = Math.floor(Date.now() / 250) % 2 ? 0 : 8;
+      for (let x = -wave; x < obj.width; x += 16) {
+        ctx.fillRect(screenX + Math.max(0, x), screenY, Math.min(8, obj.width - Math.max(0, x)), 4);
+      }
+      break;
+    }
+
+    case 'firebar':
+      firebarSegments(obj).forEach(segment => {
+        ctx.fillStyle = '#E67E22';
+        ctx.beginPath();
+        ctx.arc(segment.x - camera.x + 4, segment.y - camera.y + 4, 4, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#F4D03F';
+        ctx.fillRect(segment.x - camera.x + 3, segment.y - camera.y + 3, 2, 2);
+      });
+      break;
+
+    case 'podoboo':
+      // Fireball with a tail, pointing the way it's going
+      ctx.fillStyle = '#E74C3C';
+      ctx.beginPath();
+      ctx.arc(screenX + 8, screenY + 8, 8, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#F39C12';
+      ctx.fillRect(screenX + 5, (obj.vy || 0) < 0 ? screenY + 12 : screenY - 4, 6, 6);
+      ctx.fillStyle = '#F4D03F';
+      ctx.fillRect(screenX + 4, screenY + 5, 3, 3);
+      ctx.fillRect(screenX + 9, screenY + 5, 3, 3);
+      break;
+
+    case 'bowser': {
+      const facing = obj.direction < 0 ? -1 : 1;
+      const front = facing > 0 ? screenX + obj.width : screenX;
+
+      // Spiked shell
+      ctx.fillStyle = '#27AE60';
+      ctx.beginPath();
+      ctx.arc(screenX + obj.width / 2 - facing * 6, screenY + 24, 18, Math.PI, 0);
+      ctx.fill();
+      ctx.fillStyle = '#FFFFFF';
+      [-10, 0, 10].forEach(offset => {
+        const spikeX = screenX + obj.width / 2 - facing * 6 + offset;
+        ctx.beginPath();
+        ctx.moveTo(spikeX - 3, screenY + 12);
+        ctx.lineTo(spikeX, screenY + 4);
+        ctx.lineTo(spikeX + 3, screenY + 12);
+        ctx.fill();
+      });
+
+      // Body, belly and legs
+      ctx.fillStyle = '#F1C40F';
+      ctx.fillRect(screenX + 8, screenY + 24, 32, 16);
+      ctx.fillStyle = '#F8E5A0';
+      ctx.fillRect(facing > 0 ? screenX + 26 : screenX + 8, screenY + 24, 14, 14);
+      ctx.fillStyle = '#E67E22';
+      ctx.fillRect(screenX + 8, screenY + 40, 12, 8);
+      ctx.fillRect(screenX + 28, screenY + 40, 12, 8);
+
+      // Head with horns, eye and mouth
+      ctx.fillStyle = '#F1C40F';
+      ctx.fillRect(front - (facing > 0 ? 18 : 0), screenY + 6, 18, 16);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(front - (facing > 0 ? 14 : -10), screenY, 4, 6);
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(front - (facing > 0 ? 8 : -4), screenY + 9, 3, 3);
+      ctx.fillStyle = '#C0392B';
+      ctx.fillRect(front - (facing > 0 ? 10 : 0), screenY + 16, 10, 3);
+
+      // Red mane
+      ctx.fillStyle = '#C0392B';
+      ctx.fillRect(front - (facing > 0 ? 22 : -18), screenY + 4, 4, 12);
+      break;
+    }
+
+    case 'flame':
+      // Tapering tongue of fire, widest at the front
+      ctx.fillStyle = '#E67E22';
+      ctx.beginPath();
+      ctx.moveTo(obj.direction < 0 ? screenX + obj.width : screenX, screenY + obj.height / 2);
+      ctx.lineTo(obj.direction < 0 ? screenX : screenX + obj.width, screenY);
+      ctx.lineTo(obj.direction < 0 ? screenX : screenX + obj.width, screenY + obj.height);
+      ctx.fill();
+      ctx.fillStyle = '#F4D03F';
+      ctx.fillRect(obj.direction < 0 ? screenX + 2 : screenX + obj.width - 10, screenY + 2, 8, obj.height - 4);
+      break;
+
+    case 'axe':
+      // Handle and blade
+      ctx.fillStyle = '#8B4513';
+      ctx.fillRect(screenX + 10, screenY + 4, 4, obj.height - 4);
+      ctx.fillStyle = '#BDC3C7';
+      ctx.beginPath();
+      ctx.moveTo(screenX + 12, screenY);
+      ctx.lineTo(screenX + obj.width, screenY + 4);
+      ctx.lineTo(screenX + obj.width, screenY + 16);
+      ctx.lineTo(screenX + 12, screenY + 14);
+      ctx.fill();
+      break;
+
+    case 'vine': {
+      // Stem with a pair of leaves every 16px, counted from the bottom so they
+      // don't slide along as it grows
+      ctx.fillStyle = '#27AE60';
+      ctx.fillRect(screenX + 6, screenY, 4, obj.height);
+      ctx.fillStyle = '#2ECC71';
+      const bottom = screenY + obj.height;
+      for (let leaf = bottom - 12; leaf >= screenY; leaf -= 16) {
+        ctx.fillRect(screenX, leaf, 6, 4);
+        ctx.fillRect(screenX + 10, leaf - 8, 6, 4);
+      }
+      break;
+    }
+
+    case 'elevator':
+      // Moving platform
+      ctx.fillStyle = '#8B4513';
+      ctx.fillRect(screenX, screenY, obj.width, obj.height);
+      ctx.strokeStyle = '#654321';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(screenX, screenY, obj.width, obj.height);
+
+      // Platform details
+      ctx.fillStyle = '#A0522D';
+      ctx.fillRect(screenX + 4, screenY + 2, obj.width - 8, 4);
+      ctx.fillRect(screenX + 4, screenY + 10, obj.width - 8, 4);
+      break;
+
+    case 'starman': {
+      // Starman animation
+      const starTime = Date.now() / 100;
+      const starScale = 0.9 + 0.1 * Math.sin(starTime);
+
+      // Star body
+      ctx.fillStyle = '#F1C40F';
+      ctx.save();
+      ctx.translate(screenX + 8, screenY + 8);
+      ctx.scale(starScale, starScale);
+      ctx.beginPath();
+      for (let i = 0; i < 5; i++) {
+        const angle = (i * 144 - 90) * Math.PI / 180;
+        const x = Math.cos(angle) * 8;
+        const y = Math.sin(angle) * 8;
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+
+      // Eyes
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(screenX + 5, screenY + 6, 2, 2);
+      ctx.fillRect(screenX + 9, screenY + 6, 2, 2);
+      break;
+    }
+
+    case 'fireflower':
+      // Fire flower stem
+      ctx.fillStyle = '#2ECC71';
+      ctx.fillRect(screenX + 6, screenY + 8, 4, 8);
+
+      // Fire flower petals
+      ctx.fillStyle = '#E74C3C';
+      ctx.beginPath();
+      ctx.arc(screenX + 8, screenY + 6, 6, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Fire flower center
+      ctx.fillStyle = '#F1C40F';
+      ctx.beginPath();
+      ctx.arc(screenX + 8, screenY + 6, 3, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Fire flower face
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(screenX + 6, screenY + 4, 1, 1);
+      ctx.fillRect(screenX + 9, screenY + 4, 1, 1);
+      ctx.fillRect(screenX + 7, screenY + 7, 2, 1);
+      break;
+
+    case 'fireball': {
+      // Fireball animation
+      const fireTime = Date.now() / 100;
+      const fireScale = 0.8 + 0.3 * Math.sin(fireTime);
+
+      // Outer fire
+      ctx.fillStyle = '#E74C3C';
+      ctx.beginPath();
+      ctx.arc(screenX + 4, screenY + 4, 5 * fireScale, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Inner fire
+      ctx.fillStyle = '#F39C12';
+      ctx.beginPath();
+      ctx.arc(screenX + 4, screenY + 4, 3 * fireScale, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Core
+      ctx.fillStyle = '#F1C40F';
+      ctx.beginPath();
+      ctx.arc(screenX + 4, screenY + 4, 1.5 * fireScale, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    }
+  }
+};
+
+// Draw the level background, its tiles and every visible object
+export const drawScene = (
+  ctx: CanvasRenderingContext2D,
+  tiles: TileMap,
+  objects: GameObject[],
+  camera: { x: number; y: number },
+  theme: LevelTheme,
+  bumps: BlockBump[] = []
+) => {
+  // Clear canvas with level-appropriate background
+  const background = theme === 'underground' ? '#000080' : theme === 'sky' ? '#AED6F1' : theme === 'castle' ? '#000000' : '#5DADE2'; // Dark blue for underground
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  drawTiles(ctx, tiles, camera, theme);
+
+  // Blocks that were just hit rise and fall back into place
+  bumps.forEach(({ col, row, frames }) => {
+    const { x, y } = tileBounds(col, row);
+    const lift = Math.min(frames, BUMP_FRAMES - frames);
+    ctx.fillStyle = background;
+    ctx.fillRect(x - camera.x, y - camera.y, TILE_SIZE, TILE_SIZE);
+    drawTile(ctx, getTile(tiles, col, row), x - camera.x, y - camera.y - lift, theme);
+  });
+
+  objects.forEach(obj => {
+    if (obj.active) {
+      drawObject(ctx, obj, camera);
+    }
+  });
+};
+
+// A short post with a pennant, standing where Mario's feet would be on respawn
+const drawCheckpoint = (ctx: CanvasRenderingContext2D, x: number, feet: number, passed: boolean) => {
+  ctx.fillStyle = '#7F8C8D';
+  ctx.fillRect(x, feet - 48, 3, 48);
+  ctx.fillStyle = passed ? '#2ECC71' : '#BDC3C7';
+  ctx.beginPath();
+  ctx.moveTo(x + 3, feet - 48);
+  ctx.lineTo(x + 19, feet - 42);
+  ctx.lineTo(x + 3, feet - 36);
+  ctx.fill();
+};
+
+// Between a death and the restart: which level is next and how many lives are left
+const drawLivesScreen = (ctx: CanvasRenderingContext2D, levelId: string, lives: number) => {
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = 'bold 24px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText(`WORLD ${levelId}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 30);
+  drawDeadMario(ctx, CANVAS_WIDTH / 2 - 50, CANVAS_HEIGHT / 2 + 2);
+  ctx.textAlign = 'left';
+  ctx.fillText(`× ${lives}`, CANVAS_WIDTH / 2 - 10, CANVAS_HEIGHT / 2 + 22);
+};
+
+// Once Bowser has fallen and Mario has walked on through the castle
+const drawThankYou = (ctx: CanvasRenderingContext2D) => {
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = 'bold 24px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText('THANK YOU MARIO!', CANVAS_WIDTH / 2, 140);
+  ctx.font = 'bold 18px monospace';
+  ctx.fillText('BUT OUR PRINCESS IS IN', CANVAS_WIDTH / 2, 190);
+  ctx.fillText('ANOTHER CASTLE!', CANVAS_WIDTH / 2, 215);
+};
+
+// Dim the frame and say how to carry on
+export const drawPauseScreen = (ctx: CanvasRenderingContext2D, resumeKeys: string) => {
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = 'bold 36px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText('PAUSED', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 10);
+  ctx.font = 'bold 14px monospace';
+  ctx.fillText(`Press ${resumeKeys} to resume`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 20);
+};
+
+// Draw a full frame: level, Mario and the HUD
+export const renderGame = (ctx: CanvasRenderingContext2D, gameState: GameState) => {
+  drawScene(ctx, gameState.tiles, gameState.objects, gameState.camera, gameState.area.theme, gameState.bumps);
+
+  if (gameState.area.id === MAIN_AREA) {
+    gameState.level.checkpoints.forEach((checkpoint, index) => drawCheckpoint(
+      ctx,
+      checkpoint.x - gameState.camera.x,
+      checkpoint.y + MARIO_SMALL_HEIGHT - gameState.camera.y,
+      index <= (gameState.checkpoint ?? -1)
+    ));
+  }
+
+  // Draw Mario (with special effects during flag sequence)
+  if (gameState.flagSliding && gameState.flagAnimationProgress >= 180 && gameState.flagAnimationProgress < 240) {
+    // Fade Mario during castle entry
+    ctx.globalAlpha = 1 - ((gameState.flagAnimationProgress - 180) / 60);
+    drawMario(ctx, gameState.mario, gameState.camera);
+    ctx.globalAlpha = 1;
+  } else {
+    drawMario(ctx, gameState.mario, gameState.camera);
+  }
+
+  // Mario going through a pipe disappears behind it
+  if (gameState.pipeTransition) {
+    gameState.objects
+      .filter(obj => obj.type === 'pipe' && checkCollision(obj, gameState.mario))
+      .forEach(pipe => drawObject(ctx, pipe, gameState.camera));
+  }
+
+  if (gameState.death && gameState.death.frames >= DEATH_ANIMATION_FRAMES && gameState.lives > 0) {
+    drawLivesScreen(ctx, gameState.level.id, gameState.lives);
+  }
+
+  if (gameState.castleClear?.stage === 'message') {
+    drawThankYou(ctx);
+  }
+
+  // Draw UI with better styling
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(5, 5, 250, 90);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = 'bold 14px monospace';
+  ctx.textAlign = 'left';
+  ctx.fillText(`MARIO`, 10, 25);
+  ctx.fillText(`${gameState.score.toString().padStart(6, '0')}`, 10, 40);
+  ctx.fillText(`WORLD`, 80, 25);
+  ctx.fillText(gameState.level.id, 80, 40);
+  ctx.fillText(`TIME`, 130, 25);
+  ctx.fillText(`${Math.ceil(gameState.time).toString().padStart(3, '0')}`, 130, 40);
+  ctx.fillText(`Lives: ${gameState.lives}`, 10, 60);
+  ctx.fillText(`Coins: ${gameState.coins}`, 10, 75);
+
+  // Show Mario status
+  let status = 'Small Mario';
+  if (gameState.mario.fire) status = 'Fire Mario';
+  else if (gameState.mario.big) status = 'Super Mario';
+  if (gameState.mario.invincible > 0) status += ' (Invincible)';
+  ctx.fillText(status, 10, 90);
+
+  // Game over/win messages
+  if (gameState.gameWon) {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.fillStyle = '#F1C40F';
+    ctx.font = 'bold 36px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText('WORLD CLEAR!', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 20);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = 'bold 18px monospace';
+    ctx.fillText(`Final Score: ${gameState.score}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 20);
+  }
+
+  if (gameState.gameOver) {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.fillStyle = '#E74C3C';
+    ctx.font = 'bold 36px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText('GAME OVER', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 20);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = 'bold 18px monospace';
+    ctx.fillText('Press Reset to try again', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 20);
+  }
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { STARTING_LIVES } from './constants';
+import { step } from './engine';
+import type { Action } from './input';
+import { advanceToLevel, getLevel } from './levels';
+import {
+  advanceReplay,
+  createReplayPlayer,
+  createReplayStartState,
+  leftStoredLevel,
+  parseReplay,
+  recordInput,
+  replayLength,
+  replayOver,
+  serializeReplay,
+  simulateReplay,
+  startRecording,
+  stateChecksum,
+  verifyReplay
+} from './replay';
+
+// Record a short run through the start of 1-1, as the game does while playing
+const record = (inputs: Action[][], lives = STARTING_LIVES) => {
+  const level = getLevel('1-1');
+  const replay = startRecording(level, 42, lives);
+  let state = createReplayStartState(level, 42, lives);
+
+  inputs.forEach(actions => {
+    const input = { actions: new Set(actions) };
+    recordInput(replay, input);
+    state = step(state, input);
+  });
+  return { replay, state };
+};
+
+const INPUTS: Action[][] = [
+  ...Array<Action[]>(30).fill(['right']),
+  ...Array<Action[]>(10).fill(['jump', 'right']),
+  ...Array<Action[]>(20).fill([])
+];
+
+describe('recording', () => {
+  it('stores runs of the same input once', () => {
+    const { replay } = record(INPUTS);
+
+    expect(replay.inputs).toEqual([[30, ['right']], [10, ['jump', 'right']], [20, []]]);
+    expect(replayLength(replay)).toBe(INPUTS.length);
+  });
+
+  it('sorts actions so the order they were pressed in does not matter', () => {
+    expect(record([['jump', 'right']]).replay.inputs).toEqual(record([['right', 'jump']]).replay.inputs);
+  });
+});
+
+describe('playback', () => {
+  it('re-simulates to the state the run ended in', () => {
+    const { replay, state } = record(INPUTS);
+    expect(stateChecksum(simulateReplay(replay))).toBe(stateChecksum(state));
+  });
+
+  it('plays a run through to where it ended', () => {
+    // Walking into the first Goomba on the last life ends the run
+    const { replay, state } = record(Array<Action[]>(600).fill(['right']), 1);
+    expect(state.gameOver).toBe(true);
+
+    const player = createReplayPlayer(replay);
+    while (advanceReplay(player));
+
+    expect(replayOver(player)).toBe(true);
+    expect(player.state.gameOver).toBe(true);
+    expect(player.frame).toBeLessThan(replayLength(replay));
+    expect(stateChecksum(player.state)).toBe(stateChecksum(state));
+  });
+
+  it('is over once the inputs run out', () => {
+    const player = createReplayPlayer(record(INPUTS).replay);
+    while (advanceReplay(player));
+
+    expect(player.state.gameRunning).toBe(true);
+    expect(player.frame).toBe(INPUTS.length);
+    expect(replayOver(player)).toBe(true);
+  });
+
+  it('survives saving and loading', () => {
+    const { replay, state } = record(INPUTS);
+    const loaded = parseReplay(JSON.parse(serializeReplay(replay, state)));
+
+    expect(loaded.checksum).toBe(stateChecksum(state));
+    expect(verifyReplay(loaded)).toBe(true);
+  });
+
+  it('notices when playback ends somewhere else', () => {
+    const { replay, state } = record(INPUTS);
+    const tampered = parseReplay(JSON.parse(serializeReplay(replay, state)));
+    tampered.inputs[0][0] = 5;
+
+    expect(verifyReplay(tampered)).toBe(false);
+  });
+
+  it('tells when playback went on past the level stored with it', () => {
+    const { replay, state } = record(INPUTS);
+
+    expect(leftStoredLevel(replay, state)).toBe(false);
+    expect(leftStoredLevel(replay, advanceToLevel(state, getLevel('1-2')))).toBe(true);
+  });
+
+  it('rejects replays that are not valid', () => {
+    const { replay } = record(INPUTS);
+
+    expect(() => parseReplay({ ...replay, lives: 0 })).toThrow(/lives/);
+    expect(() => parseReplay({ ...replay, inputs: [[1, ['teleport']]] })).toThrow(/Invalid replay/);
+  });
+});
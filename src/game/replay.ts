@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { createInitialState, step } from './engine';
+import { ACTIONS, type Action } from './input';
+import { formatIssues, levelSchema, startLevel, type LevelDefinition } from './levels';
+import type { GameState, InputFrame } from './types';
+
+export const REPLAY_FORMAT_VERSION = 2;
+
+// Consecutive frames with the same actions held: [frame count, actions]
+export type InputRun = [number, Action[]];
+
+export interface Replay {
+  version: typeof REPLAY_FORMAT_VERSION;
+  seed: number;
+  lives: number;
+  // The level the run starts on is stored in full, so replays of it survive
+  // edits to the built-in levels. Later levels come from the built-in ones.
+  level: LevelDefinition;
+  inputs: InputRun[];
+  // Checksum of the final state, used to detect desyncs on playback
+  checksum?: string;
+}
+
+const replaySchema = z.object({
+  version: z.literal(REPLAY_FORMAT_VERSION),
+  seed: z.number().int().nonnegative(),
+  lives: z.number().int().positive(),
+  level: levelSchema,
+  inputs: z.array(z.tuple([z.number().int().positive(), z.array(z.enum(ACTIONS))])),
+  checksum: z.string().optional()
+});
+
+// The state a replay starts from; also used when recording so both sides agree
+export const createReplayStartState = (level: LevelDefinition, seed: number, lives: number): GameState =>
+  startLevel({ ...createInitialState(level), lives }, level, seed);
+
+export const startRecording = (level: LevelDefinition, seed: number, lives: number): Replay => ({
+  version: REPLAY_FORMAT_VERSION,
+  seed,
+  lives,
+  level,
+  inputs: []
+});
+
+// Append one simulation frame of input to a recording
+export const recordInput = (replay: Replay, input: InputFrame) => {
+  const actions = [...input.actions].sort();
+  const last = replay.inputs[replay.inputs.length - 1];
+
+  if (last && last[1].length === actions.length && last[1].every((action, i) => action === actions[i])) {
+    last[0]++;
+  } else {
+    replay.inputs.push([1, actions]);
+  }
+};
+
+export const replayLength = (replay: Replay) => replay.inputs.reduce((total, [frames]) => total + frames, 0);
+
+// FNV-1a over the parts of the state that matter for gameplay
+export const stateChecksum = (state: GameState) => {
+  const { mario } = state;
+  const data = JSON.stringify([
+    state.level.id, state.score, state.coins, state.lives, state.time, state.rngState,
+    state.gameWon, state.gameOver, mario.x, mario.y, mario.vx, mario.vy, mario.big, mario.fire,
+    state.objects.filter(obj => obj.active).length, state.tiles.cells.join('')
+  ]);
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Walks through a replay's inputs one simulation frame at a time
+export interface ReplayPlayer {
+  replay: Replay;
+  state: GameState;
+  frame: number;
+  run: number;
+  frameInRun: number;
+}
+
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => ({
+  replay,
+  state: createReplayStartState(replay.level, replay.seed, replay.lives),
+  frame: 0,
+  run: 0,
+  frameInRun: 0
+});
+
+// Input for the next frame, or null once the recording has run out
+const nextReplayInput = (player: ReplayPlayer): InputFrame | null => {
+  const run = player.replay.inputs[player.run];
+  if (!run) return null;
+
+  player.frame++;
+  player.frameInRun++;
+  if (player.frameInRun >= run[0]) {
+    player.run++;
+    player.frameInRun = 0;
+  }
+  return { actions: new Set(run[1]) };
+};
+
+// A replay is over once the run it recorded ends or its inputs run out
+export const replayOver = (player: ReplayPlayer) =>
+  !player.state.gameRunning || player.run >= player.replay.inputs.length;
+
+// Advance the player by one frame. Returns false when the replay is over.
+export const advanceReplay = (player: ReplayPlayer) => {
+  const input = replayOver(player) ? null : nextReplayInput(player);
+  if (!input) return false;
+  player.state = step(player.state, input);
+  return true;
+};
+
+// Re-simulate a whole replay without rendering and return where it ends up
+export const simulateReplay = (replay: Replay): GameState => {
+  const player = createReplayPlayer(replay);
+  while (advanceReplay(player));
+  return player.state;
+};
+
+// Did playback go on from the stored level to built-in ones? Those may have
+// changed since the replay was recorded.
+export const leftStoredLevel = (replay: Replay, state: GameState) => state.level.id !== replay.level.id;
+
+// Does re-simulating the replay land on the state it was recorded with?
+export const verifyReplay = (replay: Replay) =>
+  replay.checksum === undefined || stateChecksum(simulateReplay(replay)) === replay.checksum;
+
+export const serializeReplay = (replay: Replay, finalState?: GameState) =>
+  JSON.stringify(finalState ? { ...replay, checksum: stateChecksum(finalState) } : replay);
+
+// Parse a replay file. Throws with every validation error on invalid input.
+export const parseReplay = (data: unknown): Replay => {
+  const result = replaySchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid replay:\n${formatIssues(result.error).join('\n')}`);
+  }
+  return result.data as Replay;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { checkCollision } from './collision';
+import { buildLevelObjects, getLevel } from './levels';
+import { nextRandom } from './random';
+import { createSpatialHash, queryObjects, type Bounds } from './spatial';
+import type { GameObject } from './types';
+
+const objects = buildLevelObjects(getLevel('1-2'));
+const everything = () => true;
+
+// Boxes of all sizes scattered over the level, the same ones every run
+const randomBoxes = (count: number): Bounds[] => {
+  let seed = 99;
+  const next = (scale: number) => {
+    const [value, rngState] = nextRandom(seed);
+    seed = rngState;
+    return value * scale;
+  };
+  return Array.from({ length: count }, () => ({ x: next(2100) - 50, y: next(450) - 50, width: next(200), height: next(200) }));
+};
+
+const overlaps = (box: Bounds) => (obj: GameObject) => checkCollision(obj, box as GameObject);
+
+describe('queryObjects', () => {
+  it('finds everything a full scan finds, in list order', () => {
+    const hash = createSpatialHash(objects, everything);
+
+    randomBoxes(500).forEach(box => {
+      const found = queryObjects(hash, objects, box).filter(overlaps(box));
+      expect(found).toEqual(objects.filter(overlaps(box)));
+    });
+  });
+
+  it('only indexes objects that pass the filter', () => {
+    const hash = createSpatialHash(objects, obj => obj.type === 'pipe');
+    const level = { x: 0, y: 0, width: 2000, height: 400 };
+
+    expect(queryObjects(hash, objects, level)).toEqual(objects.filter(obj => obj.type === 'pipe'));
+  });
+
+  it('finds objects that span several cells', () => {
+    const wide: GameObject = { x: 10, y: 10, width: 300, height: 20, type: 'elevator', active: true };
+    const hash = createSpatialHash([wide], everything);
+
+    expect(queryObjects(hash, [wide], { x: 290, y: 20, width: 1, height: 1 })).toEqual([wide]);
+    expect(queryObjects(hash, [wide], { x: 400, y: 20, width: 1, height: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import type { GameObject } from './types';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Uniform grid over the level. Cells hold indices into the object list it was
+// built from, so it also works for a copy of that list in the same order.
+export interface SpatialHash {
+  cellSize: number;
+  cells: Map<string, number[]>;
+}
+
+export const CELL_SIZE = 64;
+
+const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+
+// Visit every cell a box touches
+const forEachCell = (hash: SpatialHash, box: Bounds, visit: (key: string) => void) => {
+  const minX = Math.floor(box.x / hash.cellSize);
+  const maxX = Math.floor((box.x + box.width) / hash.cellSize);
+  const minY = Math.floor(box.y / hash.cellSize);
+  const maxY = Math.floor((box.y + box.height) / hash.cellSize);
+
+  for (let cx = minX; cx <= maxX; cx++) {
+    for (let cy = minY; cy <= maxY; cy++) {
+      visit(cellKey(cx, cy));
+    }
+  }
+};
+
+// Index the objects that pass `include`
+export const createSpatialHash = (objects: GameObject[], include: (obj: GameObject) => boolean, cellSize = CELL_SIZE): SpatialHash => {
+  const hash: SpatialHash = { cellSize, cells: new Map() };
+
+  objects.forEach((obj, index) => {
+    if (!include(obj)) return;
+    forEachCell(hash, obj, key => {
+      const cell = hash.cells.get(key);
+      if (cell) {
+        cell.push(index);
+      } else {
+        hash.cells.set(key, [index]);
+      }
+    });
+  });
+
+  return hash;
+};
+
+// Objects that may overlap the box, in list order so results match a full scan
+export const queryObjects = (hash: SpatialHash, objects: GameObject[], box: Bounds): GameObject[] => {
+  const found = new Set<number>();
+  forEachCell(hash, box, key => {
+    hash.cells.get(key)?.forEach(index => found.add(index));
+  });
+
+  return [...found].sort((a, b) => a - b).map(index => objects[index]);
+};
+
+// Grow a box on every side, for queries against entities that have moved since they were indexed
+export const expandBounds = (box: Bounds, margin: number): Bounds => ({
+  x: box.x - margin,
+  y: box.y - margin,
+  width: box.width + margin * 2,
+  height: box.height + margin * 2
+});
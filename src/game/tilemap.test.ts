@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { checkCollision } from './collision';
+import { colAt, createTileMap, getTile, getTileContents, rowAt, setTile, solidTilesIn, TILE, tileBounds } from './tilemap';
+import type { GameObject } from './types';
+
+describe('tile grid', () => {
+  it('lines rows up with the top of the ground', () => {
+    expect(rowAt(368)).toBe(12);
+    expect(tileBounds(colAt(40), rowAt(368))).toEqual({ x: 32, y: 368, width: 32, height: 32 });
+  });
+
+  it('reads as empty outside the map', () => {
+    const map = setTile(createTileMap(4), 0, 0, TILE.GROUND);
+
+    expect(getTile(map, -1, 0)).toBe(TILE.EMPTY);
+    expect(getTile(map, 4, 0)).toBe(TILE.EMPTY);
+    expect(getTile(map, 0, 13)).toBe(TILE.EMPTY);
+  });
+
+  it('copies the map on every change, so earlier states keep their tiles', () => {
+    const before = setTile(createTileMap(4), 1, 2, TILE.BLOCK, 'mushroom');
+    const after = setTile(before, 1, 2, TILE.BLOCK);
+
+    expect(getTile(before, 1, 2)).toBe(TILE.BLOCK);
+    expect(getTileContents(before, 1, 2)).toBe('mushroom');
+    expect(getTileContents(after, 1, 2)).toBeUndefined();
+  });
+});
+
+describe('solidTilesIn', () => {
+  const map = [[0, 12], [1, 12], [2, 12], [2, 8]].reduce((tiles, [col, row]) => setTile(tiles, col, row, TILE.GROUND), createTileMap(10));
+
+  it('finds the same tiles as checking every tile', () => {
+    const boxes = [
+      { x: 0, y: 350, width: 20, height: 20 },
+      { x: 31, y: 367, width: 2, height: 2 },
+      { x: 50, y: 200, width: 40, height: 200 },
+      { x: -40, y: -40, width: 500, height: 500 }
+    ];
+
+    boxes.forEach(box => {
+      const everyTile: string[] = [];
+      for (let col = 0; col < map.cols; col++) {
+        for (let row = 0; row < map.rows; row++) {
+          const tile = { ...tileBounds(col, row) } as GameObject;
+          if (getTile(map, col, row) !== TILE.EMPTY && checkCollision(box as GameObject, tile)) everyTile.push(`${col},${row}`);
+        }
+      }
+
+      expect(solidTilesIn(map, box).map(({ col, row }) => `${col},${row}`)).toEqual(everyTile);
+    });
+  });
+
+  it('does not count touching a tile as overlapping it', () => {
+    expect(solidTilesIn(map, { x: 0, y: 348, width: 20, height: 20 })).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import type { BlockContents, LevelTile, Warp } from './levels/schema';
+import type { Bounds } from './spatial';
+
+export const TILE_SIZE = 32;
+
+// Rows line up with the top of the ground at y=368, so the first row sits half
+// a tile above the top of the screen and the last one ends at the bottom.
+export const TILE_ORIGIN_Y = -16;
+export const TILE_ROWS = 13;
+
+export const TILE = {
+  EMPTY: 0,
+  GROUND: 1,
+  BRICK: 2,
+  BLOCK: 3,
+  // Invisible until hit from below, then a used block
+  HIDDEN: 4,
+  // Emptied question block
+  USED: 5,
+  // Bowser's bridge, which falls away when Mario reaches the axe
+  BRIDGE: 6
+} as const;
+
+export type TileId = typeof TILE[keyof typeof TILE];
+export type TileType = Exclude<LevelTile['type'], 'pipe' | 'cannon' | 'lava'>;
+
+interface TileProperties {
+  type: TileType | null;
+  solid: boolean;
+  // Reacts to Mario jumping into it from below
+  bumpable: boolean;
+  // Big Mario can smash it from below
+  breakable: boolean;
+}
+
+export const TILE_PROPERTIES: Record<TileId, TileProperties> = {
+  [TILE.EMPTY]: { type: null, solid: false, bumpable: false, breakable: false },
+  [TILE.GROUND]: { type: 'ground', solid: true, bumpable: false, breakable: false },
+  [TILE.BRICK]: { type: 'brick', solid: true, bumpable: true, breakable: true },
+  [TILE.BLOCK]: { type: 'block', solid: true, bumpable: true, breakable: false },
+  [TILE.HIDDEN]: { type: 'hidden', solid: false, bumpable: true, breakable: false },
+  [TILE.USED]: { type: 'used', solid: true, bumpable: false, breakable: false },
+  [TILE.BRIDGE]: { type: 'bridge', solid: true, bumpable: false, breakable: false }
+};
+
+export const TILE_IDS: Record<TileType, TileId> = {
+  ground: TILE.GROUND,
+  brick: TILE.BRICK,
+  block: TILE.BLOCK,
+  hidden: TILE.HIDDEN,
+  used: TILE.USED,
+  bridge: TILE.BRIDGE
+};
+
+export const isTileType = (type: LevelTile['type']): type is TileType => type in TILE_IDS;
+
+// The static world: a column-major grid of tile ids. It is never mutated in
+// place, setTile returns a copy so earlier game states keep their tiles.
+export interface TileMap {
+  cols: number;
+  rows: number;
+  cells: Uint8Array;
+  // What a block or brick releases when hit, keyed by cell index
+  contents: ReadonlyMap<number, BlockContents>;
+  // Where the vines in blocks lead, keyed by cell index
+  warps: ReadonlyMap<number, Warp>;
+  // Level clock reading at which each multi-coin block that has been hit runs dry
+  coinTimers: ReadonlyMap<number, number>;
+}
+
+export interface TileRef {
+  col: number;
+  row: number;
+  id: TileId;
+}
+
+export const createTileMap = (cols: number, rows = TILE_ROWS): TileMap => ({
+  cols,
+  rows,
+  cells: new Uint8Array(cols * rows),
+  contents: new Map(),
+  warps: new Map(),
+  coinTimers: new Map()
+});
+
+export const colAt = (x: number) => Math.floor(x / TILE_SIZE);
+export const rowAt = (y: number) => Math.floor((y - TILE_ORIGIN_Y) / TILE_SIZE);
+
+// Index into `cells`, or -1 outside the map
+export const tileIndex = (map: TileMap, col: number, row: number) =>
+  col >= 0 && col < map.cols && row >= 0 && row < map.rows ? col * map.rows + row : -1;
+
+export const getTile = (map: TileMap, col: number, row: number): TileId => {
+  const index = tileIndex(map, col, row);
+  return index < 0 ? TILE.EMPTY : map.cells[index] as TileId;
+};
+
+export const getTileContents = (map: TileMap, col: number, row: number) =>
+  map.contents.get(tileIndex(map, col, row));
+
+export const getTileWarp = (map: TileMap, col: number, row: number) =>
+  map.warps.get(tileIndex(map, col, row));
+
+export const getCoinTimer = (map: TileMap, col: number, row: number) =>
+  map.coinTimers.get(tileIndex(map, col, row));
+
+export const setCoinTimer = (map: TileMap, col: number, row: number, until: number): TileMap => {
+  const index = tileIndex(map, col, row);
+  if (index < 0) return map;
+
+  return { ...map, coinTimers: new Map(map.coinTimers).set(index, until) };
+};
+
+// Copy of the map with one cell replaced. Whatever the old tile held is dropped.
+export const setTile = (map: TileMap, col: number, row: number, id: TileId, contents?: BlockContents): TileMap => {
+  const index = tileIndex(map, col, row);
+  if (index < 0) return map;
+
+  const cells = map.cells.slice();
+  cells[index] = id;
+  const nextContents = new Map(map.contents);
+  if (contents) {
+    nextContents.set(index, contents);
+  } else {
+    nextContents.delete(index);
+  }
+  const coinTimers = new Map(map.coinTimers);
+  coinTimers.delete(index);
+  return { ...map, cells, contents: nextContents, coinTimers };
+};
+
+export const tileBounds = (col: number, row: number): Bounds => ({
+  x: col * TILE_SIZE,
+  y: TILE_ORIGIN_Y + row * TILE_SIZE,
+  width: TILE_SIZE,
+  height: TILE_SIZE
+});
+
+// Solid tiles overlapping the box, column by column
+export const solidTilesIn = (map: TileMap, box: Bounds): TileRef[] => {
+  const found: TileRef[] = [];
+  // Touching a tile's edge doesn't count, same as checkCollision
+  const maxCol = Math.ceil((box.x + box.width) / TILE_SIZE) - 1;
+  const maxRow = Math.ceil((box.y + box.height - TILE_ORIGIN_Y) / TILE_SIZE) - 1;
+
+  for (let col = Math.max(0, colAt(box.x)); col <= Math.min(maxCol, map.cols - 1); col++) {
+    for (let row = Math.max(0, rowAt(box.y)); row <= Math.min(maxRow, map.rows - 1); row++) {
+      const id = map.cells[col * map.rows + row] as TileId;
+      if (TILE_PROPERTIES[id].solid) {
+        found.push({ col, row, id });
+      }
+    }
+  }
+
+  return found;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { STEP_MS } from './constants';
+import { createInitialState } from './engine';
+import { advanceClock, interpolateState, MAX_STEPS_PER_FRAME } from './timestep';
+import type { GameObject } from './types';
+
+describe('advanceClock', () => {
+  it('runs one step per 60 Hz frame', () => {
+    expect(advanceClock(0, STEP_MS)).toMatchObject({ steps: 1, accumulator: 0, alpha: 0 });
+  });
+
+  it('carries leftover time into the next frame', () => {
+    // A 144 Hz display: most frames run no step, and the time adds up
+    let accumulator = 0;
+    let steps = 0;
+    for (let frame = 0; frame < 144; frame++) {
+      const clock = advanceClock(accumulator, 1000 / 144);
+      accumulator = clock.accumulator;
+      steps += clock.steps;
+    }
+
+    expect(steps).toBeGreaterThanOrEqual(59);
+    expect(steps).toBeLessThanOrEqual(60);
+  });
+
+  it('reports how far into the next step the leftover time is', () => {
+    expect(advanceClock(0, STEP_MS * 1.25).alpha).toBeCloseTo(0.25);
+  });
+
+  it('drops the time after a long stall instead of catching up', () => {
+    expect(advanceClock(0, 5000)).toMatchObject({ steps: MAX_STEPS_PER_FRAME, accumulator: 0 });
+  });
+
+  it('ignores time going backwards', () => {
+    expect(advanceClock(4, -100)).toMatchObject({ steps: 0, accumulator: 4 });
+  });
+});
+
+describe('interpolateState', () => {
+  const prev = createInitialState();
+  const moved = (dx: number) => ({ ...prev, mario: { ...prev.mario, x: prev.mario.x + dx } });
+
+  it('blends positions between two steps', () => {
+    expect(interpolateState(prev, moved(4), 0.5).mario.x).toBe(prev.mario.x + 2);
+  });
+
+  it('blends objects with where they were, past any that went out of play', () => {
+    const coin = (x: number, active = true): GameObject => ({ x, y: 0, width: 16, height: 16, type: 'coin', active });
+    const before = { ...prev, objects: [coin(0, false), coin(100)] };
+    const after = { ...prev, objects: [coin(104)] };
+
+    expect(interpolateState(before, after, 0.5).objects[0].x).toBe(102);
+  });
+
+  it('does not smooth teleports', () => {
+    expect(interpolateState(prev, moved(200), 0.5).mario.x).toBe(prev.mario.x + 200);
+  });
+});
@@ -0,0 +1,55 @@
+import { STEP_MS } from './constants';
+import type { GameObject, GameState } from './types';
+
+// Most steps simulated for one rendered frame. Anything beyond is dropped so a
+// backgrounded tab or a long stall doesn't fast-forward the game on return.
+export const MAX_STEPS_PER_FRAME = 5;
+
+export interface Clock {
+  steps: number;
+  // Leftover time carried into the next frame, in milliseconds
+  accumulator: number;
+  // How far the leftover time is into the next step, from 0 to 1
+  alpha: number;
+}
+
+// Work out how many fixed steps to simulate for `elapsedMs` of wall-clock time
+export const advanceClock = (accumulator: number, elapsedMs: number): Clock => {
+  let total = accumulator + Math.max(0, elapsedMs);
+  let steps = Math.floor(total / STEP_MS);
+
+  if (steps > MAX_STEPS_PER_FRAME) {
+    steps = MAX_STEPS_PER_FRAME;
+    total = steps * STEP_MS;
+  }
+
+  const remainder = total - steps * STEP_MS;
+  return { steps, accumulator: remainder, alpha: remainder / STEP_MS };
+};
+
+// Moves longer than this in a single step are teleports (respawns, pipes) and aren't smoothed
+const TELEPORT_DISTANCE = 64;
+
+const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
+
+const interpolateObject = (prev: GameObject | undefined, next: GameObject, alpha: number): GameObject => {
+  if (!prev || prev.type !== next.type) return next;
+  if (Math.abs(next.x - prev.x) > TELEPORT_DISTANCE || Math.abs(next.y - prev.y) > TELEPORT_DISTANCE) return next;
+  return { ...next, x: lerp(prev.x, next.x, alpha), y: lerp(prev.y, next.y, alpha) };
+};
+
+// Blend two consecutive simulation states for display between steps
+export const interpolateState = (prev: GameState, next: GameState, alpha: number): GameState => {
+  // Nothing to blend across a level or area change
+  if (prev === next || prev.level !== next.level || prev.area !== next.area || alpha <= 0) return next;
+
+  // A step drops the objects that went inactive in the one before, so the
+  // next objects line up with the previous active ones
+  const previous = prev.objects.filter(obj => obj.active);
+  return {
+    ...next,
+    mario: interpolateObject(prev.mario, next.mario, alpha),
+    objects: next.objects.map((obj, index) => interpolateObject(previous[index], obj, alpha)),
+    camera: { x: lerp(prev.camera.x, next.camera.x, alpha), y: lerp(prev.camera.y, next.camera.y, alpha) }
+  };
+};
@@ -0,0 +1,167 @@
+import type { Action } from './input';
+import type { LevelArea, LevelDefinition, Warp, Wings } from './levels/schema';
+import type { SpatialHash } from './spatial';
+import type { TileMap } from './tilemap';
+
+export type GameObjectType =
+  | 'mario'
+  | 'goomba'
+  | 'mushroom'
+  | 'coin'
+  | 'block'
+  | 'hidden'
+  | 'used'
+  | 'pipe'
+  | 'ground'
+  | 'oneup'
+  | 'brick'
+  | 'flag'
+  | 'fireflower'
+  | 'fireball'
+  | 'piranha'
+  | 'koopa'
+  | 'hammerbro'
+  | 'hammer'
+  | 'lakitu'
+  | 'spiny'
+  | 'spinyegg'
+  | 'cannon'
+  | 'bullet'
+  | 'lava'
+  | 'bridge'
+  | 'firebar'
+  | 'podoboo'
+  | 'bowser'
+  | 'flame'
+  | 'axe'
+  | 'starman'
+  | 'elevator'
+  | 'vine';
+
+export interface GameObject {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  type: GameObjectType;
+  active: boolean;
+  vx?: number;
+  vy?: number;
+  grounded?: boolean;
+  collected?: boolean;
+  direction?: number;
+  // Mario is sliding to a stop after reversing direction
+  skidding?: boolean;
+  // Big Mario ducking, with a small Mario's hitbox
+  crouching?: boolean;
+  // Mario hanging on to a vine
+  climbing?: boolean;
+  // Frames left in which Mario can still jump after leaving the ground
+  coyoteTime?: number;
+  // Frames left in which an early jump press still counts once Mario lands
+  jumpBuffer?: number;
+  big?: boolean;
+  fire?: boolean;
+  solid?: boolean;
+  bounce?: number;
+  shell?: boolean;
+  moving?: boolean;
+  minY?: number;
+  maxY?: number;
+  minX?: number;
+  maxX?: number;
+  // Frames since it appeared, for enemies that act every so often
+  timer?: number;
+  // How close Mario has to be for a cannon to fire
+  range?: number;
+  // A firebar's angle in radians, and how far it turns each frame
+  angle?: number;
+  spin?: number;
+  invincible?: number;
+  // Pipes and vines that lead somewhere
+  warp?: Warp;
+  // Variations on an enemy's usual behaviour
+  modifiers?: EnemyModifiers;
+}
+
+// Each modifier takes over part of what an enemy does until it's used up,
+// then the enemy carries on as usual. Replace the object rather than changing
+// it, as copies of an enemy share it.
+export interface EnemyModifiers {
+  // A paragoomba or paratroopa, until it's stomped on
+  winged?: Wings;
+}
+
+// A knocked out enemy that comes back once `frames` run out
+export interface Respawn {
+  frames: number;
+  enemy: GameObject;
+}
+
+// After Mario reaches the axe: the bridge falls away under Bowser, Mario
+// walks on and the castle's "thank you" message shows
+export interface CastleClear {
+  stage: 'collapse' | 'walk' | 'message';
+  frames: number;
+}
+
+// Mario sliding into a pipe, or out of the one at the other end
+export interface PipeTransition {
+  stage: 'enter' | 'exit';
+  direction: 'up' | 'down' | 'left' | 'right';
+  frames: number;
+  warp: Warp;
+}
+
+// A block jolting up after being hit from below
+export interface BlockBump {
+  col: number;
+  row: number;
+  frames: number;
+}
+
+export type SoundEffect = 'jump' | 'coin' | 'powerup' | 'stomp' | 'death' | 'break' | 'fireball' | 'shrink' | 'pipe' | 'vine' | 'cannon';
+
+// Everything the player is doing during a single simulation frame
+export interface InputFrame {
+  actions: ReadonlySet<Action>;
+}
+
+export interface GameState {
+  mario: GameObject;
+  objects: GameObject[];
+  // Ground, bricks and blocks
+  tiles: TileMap;
+  // Other solid level geometry (pipes, cannons, the flag), indexed each step
+  solids: SpatialHash;
+  camera: { x: number; y: number };
+  score: number;
+  lives: number;
+  coins: number;
+  gameRunning: boolean;
+  gameWon: boolean;
+  gameOver: boolean;
+  // Actions held this frame, and those of them that weren't held the frame before
+  actions: ReadonlySet<Action>;
+  pressed: ReadonlySet<Action>;
+  level: LevelDefinition;
+  // The part of the level Mario is in: its bounds, look and music
+  area: LevelArea;
+  // Other areas of this level Mario has been in, as he left them
+  savedAreas: Record<string, { objects: GameObject[]; tiles: TileMap; respawns: Respawn[] }>;
+  time: number;
+  // Index into the level's checkpoints of the furthest one Mario has passed
+  checkpoint: number | null;
+  flagSliding: boolean;
+  flagAnimationProgress: number;
+  pipeTransition: PipeTransition | null;
+  castleClear: CastleClear | null;
+  bumps: BlockBump[];
+  respawns: Respawn[];
+  // Mario's death jump and the lives screen after it
+  death: { frames: number } | null;
+  // Seeded random number generator state, see random.ts
+  rngState: number;
+  // Sounds triggered by the last step, played by whoever hosts the engine
+  events: SoundEffect[];
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, step } from './engine';
+import type { Action } from './input';
+import { getLevel, startLevel } from './levels';
+import type { GameState } from './types';
+
+const level = getLevel('2-1');
+// The brick in 2-1 that hides a vine up to the clouds
+const VINE_BRICK = { x: 320, y: 272 };
+
+// Small Mario standing in 2-1 with the enemies knocked out
+const marioAt = (x: number, feet = 368): GameState => {
+  const state = startLevel(createInitialState(level), level, 1);
+  return {
+    ...state,
+    objects: state.objects.map(obj => (obj.type === 'goomba' || obj.type === 'koopa' ? { ...obj, active: false } : obj)),
+    mario: { ...state.mario, x, y: feet - state.mario.height, grounded: true, coyoteTime: 0 }
+  };
+};
+
+const run = (state: GameState, frames: number, ...actions: Action[]) => {
+  for (let i = 0; i < frames; i++) {
+    state = step(state, { actions: new Set(actions) });
+  }
+  return state;
+};
+
+const until = (state: GameState, done: (state: GameState) => boolean, ...actions: Action[]) => {
+  for (let i = 0; i < 600 && !done(state); i++) {
+    state = step(state, { actions: new Set(actions) });
+  }
+  return state;
+};
+
+const vineOf = (state: GameState) => state.objects.find(obj => obj.type === 'vine');
+
+// Bump the brick and wait for the vine to grow to the top of the screen
+const grownVine = () => {
+  const bumped = run(marioAt(VINE_BRICK.x + 6), 1, 'jump');
+  return until(bumped, state => vineOf(state)?.y === -16);
+};
+
+// Jump into the grown vine from the top of the bricks it grew out of
+const climbing = () => {
+  const state = grownVine();
+  const vine = vineOf(state);
+  const standing = { ...state, mario: marioAt(vine.x + vine.width - 2, VINE_BRICK.y).mario };
+  return until(run(standing, 1, 'jump'), state => state.mario.climbing, 'jump');
+};
+
+describe('vines', () => {
+  it('grow out of a brick bumped from below, up past the top of the screen', () => {
+    const state = until(run(marioAt(VINE_BRICK.x + 6), 1, 'jump'), state => !!vineOf(state));
+    expect(vineOf(state)).toMatchObject({ x: VINE_BRICK.x + 8, active: true });
+    expect(state.events).toContain('vine');
+
+    const grown = until(state, state => vineOf(state).y === -16);
+    expect(vineOf(grown)).toMatchObject({ y: -16, height: VINE_BRICK.y + 16 });
+  });
+
+  it('are caught by jumping into them and climbed by holding jump', () => {
+    const state = climbing();
+    expect(state.mario).toMatchObject({ climbing: true, vy: 0 });
+    expect(state.mario.vx).toBeCloseTo(0);
+
+    const climbed = run(state, 20, 'jump');
+    expect(climbed.mario.y).toBeCloseTo(state.mario.y - 30);
+  });
+
+  it('are climbed down and stepped off onto whatever is at the bottom', () => {
+    const state = until(climbing(), state => !state.mario.climbing, 'down');
+    expect(state.mario).toMatchObject({ climbing: false, grounded: true, y: VINE_BRICK.y - state.mario.height });
+  });
+
+  it('can be leapt off to either side', () => {
+    const state = run(run(climbing(), 1), 1, 'jump', 'left');
+    expect(state.mario.climbing).toBe(false);
+    expect(state.mario.vx).toBeLessThan(0);
+    expect(run(state, 10, 'left').mario.climbing).toBe(false);
+  });
+
+  it('lead to where their warp goes when climbed off the top', () => {
+    const state = until(climbing(), state => state.area.id === 'clouds', 'jump');
+
+    expect(state.area.id).toBe('clouds');
+    expect(state.mario).toMatchObject({ x: 64, y: 368 - state.mario.height, climbing: false });
+  });
+});
@@ -0,0 +1,97 @@
+import { checkCollision, solidsNear } from './collision';
+import { MARIO_PHYSICS } from './constants';
+import { resizeMario } from './physics';
+import { followWarp } from './pipes';
+import { TILE_ORIGIN_Y } from './tilemap';
+import type { GameObject, GameState } from './types';
+
+// Pixels per frame
+const VINE_GROWTH_SPEED = 2;
+const CLIMB_SPEED = 1.5;
+// Vines grow up to the top row of tiles, just off the top of the screen
+const VINE_TOP = TILE_ORIGIN_Y;
+// How far Mario's hitbox overlaps the vine he's holding
+const GRIP = 6;
+
+export const growVine = (vine: GameObject) => {
+  const growth = Math.min(VINE_GROWTH_SPEED, vine.y - VINE_TOP);
+  if (growth <= 0) return;
+
+  vine.y -= growth;
+  vine.height += growth;
+};
+
+const vineAt = (mario: GameObject, objects: GameObject[]) =>
+  objects.find(obj => obj.type === 'vine' && obj.active && checkCollision(mario, obj));
+
+// While climbing, `direction` is the side of the vine Mario hangs on
+const holdOn = (mario: GameObject, vine: GameObject, side: number) => {
+  mario.direction = side;
+  mario.x = side < 0 ? vine.x + GRIP - mario.width : vine.x + vine.width - GRIP;
+};
+
+// Mario grabs a vine he jumps or falls into, but not one he's leaping away from
+export const grabVine = (mario: GameObject, objects: GameObject[]) => {
+  if (mario.grounded) return;
+
+  const vine = vineAt(mario, objects);
+  if (!vine) return;
+
+  const side = Math.sign(mario.x + mario.width / 2 - (vine.x + vine.width / 2)) || mario.direction;
+  if (Math.sign(mario.vx) === side) return;
+
+  mario.climbing = true;
+  mario.crouching = false;
+  mario.skidding = false;
+  resizeMario(mario);
+  mario.vx = 0;
+  mario.vy = 0;
+  holdOn(mario, vine, side);
+};
+
+// Jump climbs up, down climbs down, left and right swing round the vine, and
+// jump with left or right leaps off. Returns the new state if Mario climbed
+// off the top of a vine that leads somewhere.
+export const climbVine = (state: GameState, mario: GameObject, objects: GameObject[]): GameState | undefined => {
+  const vine = vineAt(mario, objects);
+  if (!vine) {
+    mario.climbing = false;
+    return;
+  }
+
+  const { actions } = state;
+  const input = (actions.has('right') ? 1 : 0) - (actions.has('left') ? 1 : 0);
+
+  if (input !== 0 && state.pressed.has('jump')) {
+    // Leap off from the side he's leaping towards, so he doesn't catch the vine again
+    holdOn(mario, vine, input);
+    mario.climbing = false;
+    mario.vx = input * MARIO_PHYSICS.walkSpeed;
+    mario.vy = MARIO_PHYSICS.jumpForces[0].force;
+    state.events.push('jump');
+    return;
+  }
+
+  if (input !== 0 && input !== mario.direction) {
+    holdOn(mario, vine, input);
+  }
+
+  if (actions.has('jump')) {
+    mario.y = Math.max(vine.y, mario.y - CLIMB_SPEED);
+
+    if (vine.warp && vine.y <= VINE_TOP && mario.y <= vine.y) {
+      state.objects = objects;
+      return followWarp(state, mario, vine.warp);
+    }
+  } else if (actions.has('down')) {
+    mario.y += CLIMB_SPEED;
+
+    // Step off onto whatever is at the bottom
+    const footing = solidsNear(state, objects, mario).find(obj => checkCollision(mario, obj));
+    if (footing && mario.y + mario.height >= footing.y) {
+      mario.y = footing.y - mario.height;
+      mario.climbing = false;
+      mario.grounded = true;
+    }
+  }
+};
@@ -0,0 +1,72 @@
+import * as React from "react"
+import { toast } from "@/hooks/use-toast"
+import { readGamepadActions } from "@/game/gamepad"
+import type { Action } from "@/game/input"
+
+const getGamepads = () => navigator.getGamepads?.() ?? []
+
+// Polls connected gamepads every animation frame. Returns a ref holding the
+// actions currently held; `onPause` fires when a pause button is pressed.
+export function useGamepad(onPause: () => void) {
+  const actionsRef = React.useRef<ReadonlySet<Action>>(new Set())
+  const onPauseRef = React.useRef(onPause)
+  onPauseRef.current = onPause
+
+  React.useEffect(() => {
+    let frame: number | undefined
+    let pauseHeld = false
+
+    const poll = () => {
+      const actions = readGamepadActions(getGamepads())
+      if (actions.has("pause") && !pauseHeld) {
+        onPauseRef.current()
+      }
+      pauseHeld = actions.has("pause")
+      actionsRef.current = actions
+      frame = requestAnimationFrame(poll)
+    }
+
+    const startPolling = () => {
+      if (frame === undefined) {
+        frame = requestAnimationFrame(poll)
+      }
+    }
+
+    const stopPolling = () => {
+      if (frame !== undefined) {
+        cancelAnimationFrame(frame)
+        frame = undefined
+      }
+      actionsRef.current = new Set()
+      pauseHeld = false
+    }
+
+    const handleConnected = (e: GamepadEvent) => {
+      toast({ title: "Controller connected", description: e.gamepad.id })
+      startPolling()
+    }
+
+    const handleDisconnected = (e: GamepadEvent) => {
+      toast({ title: "Controller disconnected", description: e.gamepad.id })
+      if (!getGamepads().some(pad => pad?.connected)) {
+        stopPolling()
+      }
+    }
+
+    // Pads plugged in before the page loaded only announce themselves once used
+    if (getGamepads().some(pad => pad?.connected)) {
+      startPolling()
+    }
+
+    window.addEventListener("gamepadconnected", handleConnected)
+    window.addEventListener("gamepaddisconnected", handleDisconnected)
+
+    return () => {
+      window.removeEventListener("gamepadconnected", handleConnected)
+      window.removeEventListener("gamepaddisconnected", handleDisconnected)
+      stopPolling()
+    }
+  }, [])
+
+  return actionsRef
+}
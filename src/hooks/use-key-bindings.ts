@@ -0,0 +1,28 @@
+import * as React from "react"
+import { DEFAULT_BINDINGS, parseBindings, type KeyBindings } from "@/game/input"
+
+const STORAGE_KEY = "goomba-mushroom-world:key-bindings"
+
+function loadBindings(): KeyBindings {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY)
+    return saved ? parseBindings(JSON.parse(saved)) : DEFAULT_BINDINGS
+  } catch {
+    return DEFAULT_BINDINGS
+  }
+}
+
+// Keyboard bindings for the game's input actions, saved in localStorage
+export function useKeyBindings() {
+  const [bindings, setBindings] = React.useState<KeyBindings>(loadBindings)
+
+  React.useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings))
+    } catch {
+      // Storage can be unavailable (private browsing); bindings then last for the session
+    }
+  }, [bindings])
+
+  return [bindings, setBindings] as const
+}
@@ -4,3 +4,14 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Save text as a file through the browser's download prompt
+export function downloadFile(filename: string, contents: string, type = "application/json") {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  // Some browsers cancel the download if the URL goes before it has started
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,23 @@
+import { Link } from 'react-router-dom';
+import { LevelEditor } from '@/components/LevelEditor';
+
+const Editor = () => {
+  return (
+    <div className="min-h-screen bg-mario-sky p-4">
+      <div className="text-center mb-6">
+        <h1 className="text-5xl font-bold pixel-font text-mario-white mb-2">
+          LEVEL EDITOR
+        </h1>
+        <p className="text-lg pixel-font text-mario-white">
+          Paint a level, play-test it, then export it as JSON • <Link to="/" className="underline text-mario-yellow">Back to the game</Link>
+        </p>
+      </div>
+
+      <div className="flex justify-center">
+        <LevelEditor />
+      </div>
+    </div>
+  );
+};
+
+export default Editor;